@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { clearMockBatches, mockEnabled, receiveMockBatch, recordedMockBatches } from '@/lib/atlarMock';
+
+export const dynamic = 'force-dynamic';
+
+// HTTP face of the mock Atlar forecasts endpoint (see lib/atlarMock.ts): GET lists the recorded
+// batches and DELETE clears them. The export route hands batches to the mock in-process.
+// Where the mock is disabled the route answers 404, as if it weren't there.
+
+const notFound = () => NextResponse.json({ message: 'Not found' }, { status: 404 });
+
+export async function GET() {
+  if (!mockEnabled()) return notFound();
+  const recorded = recordedMockBatches();
+  return NextResponse.json({
+    batches: recorded.length,
+    forecasts: recorded.reduce((total, batch) => total + batch.forecasts.length, 0),
+    recorded
+  });
+}
+
+export async function DELETE() {
+  if (!mockEnabled()) return notFound();
+  clearMockBatches();
+  return new NextResponse(null, { status: 204 });
+}
+
+export async function POST(request: Request) {
+  if (!mockEnabled()) return notFound();
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'The request body is not valid JSON.' }, { status: 400 });
+  }
+  const reply = receiveMockBatch(body?.forecasts, request.headers.get('Idempotency-Key'));
+  return NextResponse.json(reply.body, { status: reply.status, headers: reply.headers });
+}
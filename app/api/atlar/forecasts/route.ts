@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { AtlarTarget, validateForecasts } from '@/lib/atlarApi';
+import { atlarConfig, postForecasts, refuseExport } from '@/lib/atlarServer';
+
+export const dynamic = 'force-dynamic';
+
+// Where batches will go, without the token
+export async function GET() {
+  const { mode, baseUrl, keyRequired } = atlarConfig();
+  const target: AtlarTarget = { mode, baseUrl, keyRequired };
+  return NextResponse.json(target);
+}
+
+// Send one batch: { forecasts: ForecastPayload[] }. Replies with SendBatchResponse; a failed
+// delivery is a 502 whose body still says how many attempts were made and with which key.
+// Requests from other sites, or without the export key when one is set, get a 403.
+export async function POST(request: Request) {
+  const refusal = refuseExport(request);
+  if (refusal) return NextResponse.json({ error: refusal }, { status: 403 });
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'The request body is not valid JSON.' }, { status: 400 });
+  }
+  const problems = validateForecasts(body?.forecasts);
+  if (problems.length > 0) return NextResponse.json({ error: problems.join('; ') }, { status: 400 });
+
+  try {
+    const result = await postForecasts(body.forecasts, atlarConfig());
+    return NextResponse.json(result, { status: result.ok ? 200 : 502 });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to send the batch' }, { status: 500 });
+  }
+}
@@ -1,28 +1,154 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { Download, AlertCircle, CheckCircle, ArrowRight, ArrowLeft, ExternalLink } from 'lucide-react';
 import FileUpload from '@/components/FileUpload';
-import { parseFile, parseFileMulti, transformData, transformDataMulti, generateCSV, generateExcel, ParsedData, ParsedDataMulti, TransformOptions, TransformedRow } from '@/lib/parsers';
+import SheetPicker from '@/components/SheetPicker';
+import CellIssues from '@/components/CellIssues';
+import SubtotalReport from '@/components/SubtotalReport';
+import ColumnMapper from '@/components/ColumnMapper';
+import CategoryMapper from '@/components/CategoryMapper';
+import DuplicateReport from '@/components/DuplicateReport';
+import FxConversion from '@/components/FxConversion';
+import SignRules from '@/components/SignRules';
+import EntityDirectory from '@/components/EntityDirectory';
+import CsvOptions from '@/components/CsvOptions';
+import ExportSplit from '@/components/ExportSplit';
+import AtlarExport from '@/components/AtlarExport';
+import ReverseTransform from '@/components/ReverseTransform';
+import { readFileSheets, parseSheets, parseSheetsMulti, readCategoryMappingTable, findUnmappedCategories, previewSignTotals, previewSignTotalsMulti, inferBaseYear, readHeaders, headerSignature, candidateHeaderSignatures, withDelimiter, transformSheets, transformSheetsMulti, generateCSV, DEFAULT_CSV_OUTPUT, CsvOutputOptions, RawSheet, CsvDelimiter, TextEncoding, SheetAssignment, ColumnMapping, CategoryMappingEntry, DuplicatePolicy, DuplicateGroup, TransformResult, SignRule, BookingOptions, DateOrder, DecimalSeparator, InputLayout, Periodicity, MonthAnchor, Allocation, ParseOptions, TransformOptions, TransformedRow } from '@/lib/parsers';
+import { readFxRateTable, FxRate } from '@/lib/fx';
+import { generateExcel } from '@/lib/review';
+import { RoundingMode, isIsoCurrency, minorUnits } from '@/lib/currencies';
+import { EntityRecord, findEntity, isUuid, readEntityDirectory, entityDirectoryToJson } from '@/lib/entities';
+import { SplitOptions, planExport, exportTimestamp, generateExportZip } from '@/lib/exports';
+import { readAtlarRows, buildForecastGrid, generateGridExcel } from '@/lib/reverse';
+import { AtlarTarget, BatchResult, DEFAULT_BATCH_SIZE, fetchAtlarTarget, sendForecastBatches } from '@/lib/atlarApi';
+import { recallColumnMapping, rememberColumnMapping, recallCategoryMapping, rememberCategoryMapping, recallSignRules, rememberSignRules, recallEntityDirectory, rememberEntityDirectory, recallCsvOutput, rememberCsvOutput } from '@/lib/storage';
+
+const DELIMITER_LABELS: { [delimiter in CsvDelimiter]: string } = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe'
+};
+
+const ENCODING_LABELS: { [encoding in TextEncoding]: string } = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16LE',
+  'utf-16be': 'UTF-16BE',
+  'windows-1252': 'Windows-1252'
+};
+
+const WEEKDAY_LABELS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+function saveBlob(blob: Blob, fileName: string) {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<'single' | 'multi'>('single');
+  const [activeTab, setActiveTab] = useState<'single' | 'multi' | 'reverse'>('single');
   const [currentStep, setCurrentStep] = useState(1);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedData | null>(null);
+  const [rawSheets, setRawSheets] = useState<RawSheet[]>([]);
+  const [sheetAssignments, setSheetAssignments] = useState<Record<string, SheetAssignment>>({});
   const [transformedData, setTransformedData] = useState<TransformedRow[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicateGroup[]>([]);
+  const [exportBlocked, setExportBlocked] = useState(false);
   const [error, setError] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isTransforming, setIsTransforming] = useState(false);
   
   // Form options
   const [currency, setCurrency] = useState('SEK');
-  const [parentId, setParentId] = useState('ENTITY_ID');
-  const [periodicity, setPeriodicity] = useState('');
+  const [parentId, setParentId] = useState(''); // entity UUID, or a name or code from the directory
+  const [periodicity, setPeriodicity] = useState<Periodicity | ''>('');
+  const [weekAnchor, setWeekAnchor] = useState(1); // ISO weekday weekly buckets start on
+  const [monthAnchor, setMonthAnchor] = useState<MonthAnchor>('first');
+  const [allocation, setAllocation] = useState<Allocation | ''>('');
+  const [allocationWeekday, setAllocationWeekday] = useState(1);
+  const [categoryMapping, setCategoryMapping] = useState<CategoryMappingEntry[]>([]);
+  const [categoryMappingError, setCategoryMappingError] = useState('');
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('sum');
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [fxTarget, setFxTarget] = useState(''); // empty keeps the original currencies
+  const [fxError, setFxError] = useState('');
+  const [signRules, setSignRules] = useState<SignRule[]>([]);
+  const [flipSigns, setFlipSigns] = useState(false);
+  const [rounding, setRounding] = useState<RoundingMode>('halfUp');
+  const [entityDirectory, setEntityDirectory] = useState<EntityRecord[]>([]);
+  const [entityImportError, setEntityImportError] = useState('');
+  const [csvOutput, setCsvOutput] = useState<CsvOutputOptions>(DEFAULT_CSV_OUTPUT);
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>({ by: 'none', maxRows: null });
+  const [atlarTarget, setAtlarTarget] = useState<AtlarTarget | null>(null);
+  const [atlarTargetError, setAtlarTargetError] = useState('');
+  // Only kept for this visit, never stored
+  const [atlarExportKey, setAtlarExportKey] = useState('');
+  const [atlarBatchSize, setAtlarBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [atlarResults, setAtlarResults] = useState<BatchResult[]>([]);
+  const [isSendingToAtlar, setIsSendingToAtlar] = useState(false);
+  // Reverse mode: rows read from an Atlar file, rebuilt into the wide grid
+  const [reverseFileName, setReverseFileName] = useState('');
+  const [reverseRows, setReverseRows] = useState<TransformedRow[]>([]);
+  const [reverseEntityColumns, setReverseEntityColumns] = useState(false);
+  const [baseYear, setBaseYear] = useState(() => new Date().getFullYear());
+  const [dateOrder, setDateOrder] = useState<DateOrder>('DMY');
+  const [decimalSetting, setDecimalSetting] = useState<DecimalSeparator | ''>('');
+  const [layoutSetting, setLayoutSetting] = useState<InputLayout | ''>('');
+  const [headerRowSetting, setHeaderRowSetting] = useState(''); // 1-based; empty detects it
+  const [excludeSubtotals, setExcludeSubtotals] = useState(true);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [showColumnMapper, setShowColumnMapper] = useState(false);
+  const [delimiterSetting, setDelimiterSetting] = useState<CsvDelimiter | ''>('');
   const [useCategoryLeaf, setUseCategoryLeaf] = useState(true);
 
-  // Multi-entity parsed data
-  const [parsedDataMulti, setParsedDataMulti] = useState<ParsedDataMulti | null>(null);
+  // Parsed sheets, one entry per workbook sheet (CSV files have a single sheet)
+  const parseOptions = useMemo<ParseOptions>(
+    () => ({
+      baseYear,
+      dateOrder,
+      decimalSeparator: decimalSetting || undefined,
+      layout: layoutSetting || undefined,
+      headerRow: parseInt(headerRowSetting, 10) >= 1 ? parseInt(headerRowSetting, 10) - 1 : undefined,
+      excludeSubtotals,
+      columnMapping
+    }),
+    [baseYear, dateOrder, decimalSetting, layoutSetting, headerRowSetting, excludeSubtotals, columnMapping]
+  );
+  // CSV files are split again when the user overrides the detected delimiter
+  const sheetGrids = useMemo(
+    () => delimiterSetting ? rawSheets.map(sheet => withDelimiter(sheet, delimiterSetting)) : rawSheets,
+    [rawSheets, delimiterSetting]
+  );
+  const sheets = useMemo(() => activeTab === 'single' ? parseSheets(sheetGrids, parseOptions) : [], [activeTab, sheetGrids, parseOptions]);
+  const sheetsMulti = useMemo(() => activeTab === 'multi' ? parseSheetsMulti(sheetGrids, parseOptions) : [], [activeTab, sheetGrids, parseOptions]);
+  const sheetStatus = activeTab === 'multi' ? sheetsMulti : sheets;
+  const hasIncludedSheet = sheetStatus.some(sheet => sheet.parsed && sheetAssignments[sheet.name]?.included);
+  // Categories the mapping table doesn't cover yet; transforming is blocked until they are mapped
+  const unmappedCategories = useMemo(
+    () => findUnmappedCategories(
+      sheetStatus.flatMap(sheet => sheet.parsed && sheetAssignments[sheet.name]?.included ? [sheet.parsed] : []),
+      categoryMapping
+    ),
+    [sheetStatus, sheetAssignments, categoryMapping]
+  );
+  // Headers offered in the mapping step: the first sheet that fails to parse, else the first sheet
+  const mapperSheet = sheetGrids.find((_, i) => !sheetStatus[i]?.parsed) ?? sheetGrids[0];
+  const mapperHeaders = useMemo(
+    () => mapperSheet ? readHeaders(mapperSheet.rows, parseOptions) : [],
+    [mapperSheet, parseOptions]
+  );
+  const parseError = rawSheets.length > 0 && !sheetStatus.some(sheet => sheet.parsed)
+    ? (sheetStatus.length === 1 ? sheetStatus[0].error : 'No sheet in this workbook has a "Category" header.')
+    : '';
 
   const handleFileSelect = useCallback(async (file: File) => {
     setSelectedFile(file);
@@ -30,68 +156,169 @@ export default function Home() {
     setIsProcessing(true);
     
     try {
-      if (activeTab === 'multi') {
-        const data = await parseFileMulti(file);
-        setParsedDataMulti(data);
-        setParsedData(null);
-      } else {
-        const data = await parseFile(file);
-        setParsedData(data);
-        setParsedDataMulti(null);
+      const data = await readFileSheets(file);
+      // Unusable sheets stay in the list so layout or header-row overrides can still make them usable
+      const assignments: Record<string, SheetAssignment> = {};
+      for (const sheet of data) {
+        assignments[sheet.name] = { included: true, parentId: '', currency: '' };
       }
+      setRawSheets(data);
+      setSheetAssignments(assignments);
+      setBaseYear(inferBaseYear(file.name));
+      // A file whose header row has the same non-date headers as an earlier one reuses its column mapping
+      const remembered = data.length > 0 ? recallColumnMapping(candidateHeaderSignatures(data[0].rows)) : null;
+      setColumnMapping(remembered ?? {});
+      setShowColumnMapper(false);
+      setDelimiterSetting('');
       setError('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to parse file');
-      setParsedData(null);
-      setParsedDataMulti(null);
+      setRawSheets([]);
+      setSheetAssignments({});
     } finally {
       setIsProcessing(false);
     }
-  }, [activeTab]);
+  }, []);
+
+  // The category mapping table, sign rules, entity directory and CSV format are kept between sessions; read after mount so the first render matches the server
+  useEffect(() => {
+    setCategoryMapping(recallCategoryMapping());
+    setSignRules(recallSignRules());
+    setEntityDirectory(recallEntityDirectory());
+    setCsvOutput(recallCsvOutput());
+  }, []);
+
+  const handleCsvOutputChange = useCallback((options: CsvOutputOptions) => {
+    setCsvOutput(options);
+    rememberCsvOutput(options);
+  }, []);
+
+  const handleCategoryMappingChange = useCallback((entries: CategoryMappingEntry[]) => {
+    setCategoryMapping(entries);
+    rememberCategoryMapping(entries);
+  }, []);
+
+  const handleCategoryMappingUpload = useCallback(async (file: File) => {
+    try {
+      const [sheet] = await readFileSheets(file);
+      handleCategoryMappingChange(readCategoryMappingTable(sheet?.rows ?? []));
+      setCategoryMappingError('');
+    } catch (err) {
+      setCategoryMappingError(err instanceof Error ? err.message : 'Failed to read the mapping table');
+    }
+  }, [handleCategoryMappingChange]);
+
+  const handleSignRulesChange = useCallback((rules: SignRule[]) => {
+    setSignRules(rules);
+    rememberSignRules(rules);
+  }, []);
+
+  const handleEntityDirectoryChange = useCallback((directory: EntityRecord[]) => {
+    setEntityDirectory(directory);
+    rememberEntityDirectory(directory);
+  }, []);
+
+  const handleEntityDirectoryImport = useCallback(async (file: File) => {
+    try {
+      handleEntityDirectoryChange(readEntityDirectory(await file.text()));
+      setEntityImportError('');
+    } catch (err) {
+      setEntityImportError(err instanceof Error ? err.message : 'Failed to import the entity directory');
+    }
+  }, [handleEntityDirectoryChange]);
+
+  const handleEntityDirectoryExport = useCallback(() => {
+    saveBlob(new Blob([entityDirectoryToJson(entityDirectory)], { type: 'application/json' }), 'entities.json');
+  }, [entityDirectory]);
+
+  // Picking a directory entity also picks its default currency
+  const handleParentIdChange = useCallback((value: string) => {
+    setParentId(value);
+    const entity = findEntity(value, entityDirectory);
+    if (entity?.currency) setCurrency(entity.currency);
+  }, [entityDirectory]);
+
+  const handleFxRatesUpload = useCallback(async (file: File) => {
+    try {
+      const [sheet] = await readFileSheets(file);
+      setFxRates(readFxRateTable(sheet?.rows ?? [], dateOrder));
+      setFxError('');
+    } catch (err) {
+      setFxError(err instanceof Error ? err.message : 'Failed to read the rate table');
+    }
+  }, [dateOrder]);
+
+  const handleSheetAssignmentChange = useCallback((sheetName: string, assignment: SheetAssignment) => {
+    setSheetAssignments(prev => ({ ...prev, [sheetName]: assignment }));
+  }, []);
 
   const handleContinue = useCallback(() => {
-    if (!selectedFile) return;
-    if (activeTab === 'multi') {
-      // Skip config step for multi; go directly to transform
-      setCurrentStep(2);
-    } else if (parsedData) {
-      setCurrentStep(2);
+    if (!selectedFile || !hasIncludedSheet) return;
+    // Keyed by the header row the mapping resolves, not a title row above it
+    if (Object.keys(columnMapping).length > 0 && mapperHeaders.length > 0) {
+      rememberColumnMapping(headerSignature(mapperHeaders), columnMapping);
     }
-  }, [selectedFile, parsedData, activeTab]);
+    // Multi skips the config step; step 2 goes directly to transform
+    setCurrentStep(2);
+  }, [selectedFile, hasIncludedSheet, columnMapping, mapperHeaders]);
+
+  const applyTransformResult = useCallback((result: TransformResult) => {
+    setTransformedData(result.rows);
+    setDuplicates(result.duplicates);
+    setExportBlocked(result.blocked);
+    setAtlarResults([]);
+  }, []);
+
+  // Settings shared by both tabs; single-entity uploads add the currency, entity and periodicity
+  const bookingOptions = useMemo<BookingOptions>(
+    () => ({
+      allocation: allocation || undefined,
+      allocationWeekday,
+      categoryMapping,
+      duplicates: duplicatePolicy,
+      fx: fxTarget ? { rates: fxRates, target: fxTarget } : undefined,
+      signRules,
+      flipSigns,
+      rounding,
+      entities: entityDirectory
+    }),
+    [allocation, allocationWeekday, categoryMapping, duplicatePolicy, fxRates, fxTarget, signRules, flipSigns, rounding, entityDirectory]
+  );
+  const transformOptions = useMemo<TransformOptions>(
+    () => ({
+      ...bookingOptions,
+      currency: currency.toUpperCase(),
+      parentId,
+      periodicity: periodicity || undefined,
+      weekAnchor,
+      monthAnchor
+    }),
+    [bookingOptions, currency, parentId, periodicity, weekAnchor, monthAnchor]
+  );
+
+  const runTransform = useCallback(
+    () => activeTab === 'multi'
+      ? transformSheetsMulti(sheetsMulti, sheetAssignments, bookingOptions)
+      : transformSheets(sheets, sheetAssignments, transformOptions),
+    [activeTab, sheets, sheetsMulti, sheetAssignments, bookingOptions, transformOptions]
+  );
+
+  // Inflow/outflow totals under the current settings, previewed next to the sign rules
+  const signPreview = useMemo(() => {
+    if (currentStep !== 2 || !hasIncludedSheet) return null;
+    return activeTab === 'multi'
+      ? previewSignTotalsMulti(sheetsMulti, sheetAssignments, bookingOptions)
+      : previewSignTotals(sheets, sheetAssignments, transformOptions);
+  }, [currentStep, hasIncludedSheet, activeTab, sheets, sheetsMulti, sheetAssignments, bookingOptions, transformOptions]);
 
   const handleTransform = useCallback(async () => {
-    if (activeTab === 'multi') {
-      if (!parsedDataMulti) return;
-      setIsTransforming(true);
-      setError('');
-      try {
-        const transformed = transformDataMulti(parsedDataMulti);
-        setTransformedData(transformed);
-        setError('');
-        setCurrentStep(3);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to transform data');
-        setTransformedData([]);
-      } finally {
-        setIsTransforming(false);
-      }
-      return;
-    }
-    if (!parsedData) return;
+    if (!hasIncludedSheet || unmappedCategories.length > 0) return;
     
     setIsTransforming(true);
     setError('');
     
     try {
-      const options: TransformOptions = {
-        currency: currency.toUpperCase(),
-        parentId,
-        periodicity: periodicity.trim() || undefined
-      };
-      
-      const transformed = transformData(parsedData, options);
-      setTransformedData(transformed);
-      setError('');
+      applyTransformResult(runTransform());
       setCurrentStep(3);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to transform data');
@@ -99,53 +326,269 @@ export default function Home() {
     } finally {
       setIsTransforming(false);
     }
-  }, [activeTab, parsedData, parsedDataMulti, currency, parentId, useCategoryLeaf]);
+  }, [hasIncludedSheet, unmappedCategories, runTransform, applyTransformResult]);
+
+  // Preview of the files the download will produce; names get their timestamp again on download
+  const exportFiles = useMemo(
+    () => planExport(transformedData, splitOptions, entityDirectory),
+    [transformedData, splitOptions, entityDirectory]
+  );
 
   const handleDownload = useCallback(() => {
-    if (transformedData.length === 0) return;
-    
-    const csv = generateCSV(transformedData);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'transformed');
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, [transformedData]);
+    if (transformedData.length === 0 || exportBlocked) return;
+
+    const now = new Date();
+    const files = planExport(transformedData, splitOptions, entityDirectory, now);
+    if (files.length === 1) {
+      saveBlob(new Blob([generateCSV(files[0].rows, csvOutput)], { type: 'text/csv;charset=utf-8;' }), `${files[0].name}.csv`);
+    } else {
+      const zip = generateExportZip(files, csvOutput, now);
+      saveBlob(new Blob([zip], { type: 'application/zip' }), `atlar_forecast_${exportTimestamp(now)}.zip`);
+    }
+  }, [transformedData, exportBlocked, csvOutput, splitOptions, entityDirectory]);
+
+  // Ask the server where API exports go once the user reaches the download step
+  useEffect(() => {
+    if (currentStep !== 3 || atlarTarget || atlarTargetError) return;
+    fetchAtlarTarget()
+      .then(setAtlarTarget)
+      .catch(err => setAtlarTargetError(err instanceof Error ? err.message : 'Failed to read the Atlar export settings'));
+  }, [currentStep, atlarTarget, atlarTargetError]);
+
+  const handleSendToAtlar = useCallback(async () => {
+    if (transformedData.length === 0 || exportBlocked) return;
+    setIsSendingToAtlar(true);
+    try {
+      await sendForecastBatches(transformedData, atlarBatchSize, setAtlarResults, atlarExportKey);
+    } finally {
+      setIsSendingToAtlar(false);
+    }
+  }, [transformedData, exportBlocked, atlarBatchSize, atlarExportKey]);
 
   const handleDownloadExcel = useCallback(() => {
     if (transformedData.length === 0) return;
-    
-    const excelData = generateExcel(transformedData); // ArrayBuffer
-    const blob = new Blob([excelData], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'transformed');
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    URL.revokeObjectURL(url);
-  }, [transformedData]);
+
+    const [file] = planExport(transformedData, { by: 'none', maxRows: null }, entityDirectory);
+    const included = sheetStatus.filter(sheet => sheet.parsed && sheetAssignments[sheet.name]?.included);
+    const excelData = generateExcel(transformedData, {
+      sources: sheetGrids.filter(sheet => sheetAssignments[sheet.name]?.included),
+      parsed: included.map(sheet => ({ name: sheet.name, issues: sheet.parsed!.issues, subtotals: sheet.parsed!.subtotals })),
+      duplicates,
+      pivotPeriod: activeTab === 'single' && (periodicity === 'Weekly' || periodicity === 'Monthly') ? periodicity : undefined,
+      weekAnchor,
+      entities: entityDirectory
+    }); // ArrayBuffer
+    saveBlob(new Blob([excelData], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${file.name}.xlsx`);
+  }, [transformedData, entityDirectory, sheetStatus, sheetAssignments, sheetGrids, duplicates, activeTab, periodicity, weekAnchor]);
+
+  const reverseGrid = useMemo(
+    () => reverseRows.length > 0 ? buildForecastGrid(reverseRows, { entityColumns: reverseEntityColumns }) : null,
+    [reverseRows, reverseEntityColumns]
+  );
+
+  const handleReverseFileSelect = useCallback(async (file: File) => {
+    setError('');
+    setIsProcessing(true);
+    try {
+      const [sheet] = await readFileSheets(file);
+      setReverseRows(readAtlarRows(sheet?.rows ?? []));
+      setReverseFileName(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the Atlar file');
+      setReverseRows([]);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const handleReverseDownload = useCallback(() => {
+    if (!reverseGrid) return;
+    const excelData = generateGridExcel(reverseGrid);
+    saveBlob(new Blob([excelData], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${reverseFileName || 'atlar'}_grid.xlsx`);
+  }, [reverseGrid, reverseFileName]);
 
   const reset = useCallback(() => {
     setCurrentStep(1);
     setSelectedFile(null);
-    setParsedData(null);
+    setRawSheets([]);
+    setSheetAssignments({});
     setTransformedData([]);
+    setDuplicates([]);
+    setExportBlocked(false);
     setError('');
     setPeriodicity('');
   }, []);
 
+  const handleBaseYearChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const year = parseInt(e.target.value, 10);
+    if (!isNaN(year)) setBaseYear(year);
+  }, []);
+
+  const baseYearField = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Base year</label>
+      <input type="number" value={baseYear} onChange={handleBaseYearChange} className="input-field" min={1900} max={2100} />
+      <p className="text-xs text-gray-500 mt-1">Used for headers without a year (e.g., &quot;Oct 29&quot;, &quot;Dec 29 - Jan 4&quot;); later headers roll over into the next year automatically</p>
+    </div>
+  );
+
+  // Slash-date order per included sheet, shown before transforming
+  const dateOrderSummary = sheetStatus
+    .filter(sheet => sheet.parsed?.dateOrder && sheetAssignments[sheet.name]?.included)
+    .map(sheet => {
+      const result = sheet.parsed!.dateOrder!;
+      const label = result.order === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+      const source = result.detected ? 'detected from headers' : 'headers are ambiguous, using setting';
+      return rawSheets.length > 1 ? `${sheet.name}: ${label} (${source})` : `${label} (${source})`;
+    });
+
+  const dateOrderField = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Ambiguous date order</label>
+      <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)} className="input-field">
+        <option value="DMY">DD/MM/YYYY (European)</option>
+        <option value="MDY">MM/DD/YYYY (US)</option>
+      </select>
+      {dateOrderSummary.length > 0 ? (
+        <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+          {dateOrderSummary.map(line => <li key={line}>Date order: {line}</li>)}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 mt-1">Used when no header value above 12 decides the order</p>
+      )}
+    </div>
+  );
+
+  const includedParsed = sheetStatus.filter(sheet => sheet.parsed && sheetAssignments[sheet.name]?.included);
+  const amountIssues = includedParsed.flatMap(sheet =>
+    sheet.parsed!.issues.map(issue => ({ ...issue, sheet: rawSheets.length > 1 ? sheet.name : undefined }))
+  );
+  const decimalSummary = includedParsed.map(sheet => {
+    const result = sheet.parsed!.decimalSeparator;
+    const label = result.separator === ',' ? 'comma (1 234,50)' : 'dot (1,234.50)';
+    const source = result.source === 'detected' ? 'detected' : result.source === 'setting' ? 'set manually' : 'no evidence, assumed';
+    return rawSheets.length > 1 ? `${sheet.name}: ${label}, ${source}` : `${label}, ${source}`;
+  });
+
+  const subtotalChecks = includedParsed.flatMap(sheet =>
+    sheet.parsed!.subtotals.map(check => ({ ...check, sheet: rawSheets.length > 1 ? sheet.name : undefined }))
+  );
+
+  const allocationField = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Week ranges and periods</label>
+      <select value={allocation} onChange={(e) => setAllocation(e.target.value as Allocation | '')} className="input-field">
+        <option value="">Default (last day, or spread evenly when resampling)</option>
+        <option value="first">Book on the first day</option>
+        <option value="last">Book on the last day</option>
+        <option value="weekday">Book on a weekday</option>
+        <option value="even">Split evenly across all days</option>
+        <option value="businessDays">Split evenly across business days (Mon-Fri)</option>
+      </select>
+      {allocation === 'weekday' && (
+        <select value={allocationWeekday} onChange={(e) => setAllocationWeekday(parseInt(e.target.value, 10))} className="input-field mt-2">
+          {WEEKDAY_LABELS.map((label, i) => (
+            <option key={label} value={i + 1}>{label}</option>
+          ))}
+        </select>
+      )}
+      <p className="text-xs text-gray-500 mt-1">How amounts under headers like &quot;Nov 3-9&quot; or &quot;Jan 2025&quot; are dated; splits are rounded so the cents add up to the original amount</p>
+    </div>
+  );
+
+  const categoryMappingField = (
+    <CategoryMapper
+      entries={categoryMapping}
+      onChange={handleCategoryMappingChange}
+      onUpload={handleCategoryMappingUpload}
+      unmapped={unmappedCategories}
+      uploadError={categoryMappingError}
+    />
+  );
+
+  const roundingField = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Rounding</label>
+      <select value={rounding} onChange={(e) => setRounding(e.target.value as RoundingMode)} className="input-field">
+        <option value="halfUp">Half up (0.125 → 0.13)</option>
+        <option value="halfEven">Banker&apos;s rounding (0.125 → 0.12)</option>
+      </select>
+      <p className="text-xs text-gray-500 mt-1">Amounts are rounded to each currency&apos;s decimals (JPY 0, SEK 2, KWD 3)</p>
+    </div>
+  );
+
+  const duplicatesField = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Duplicate rows</label>
+      <select value={duplicatePolicy} onChange={(e) => setDuplicatePolicy(e.target.value as DuplicatePolicy)} className="input-field">
+        <option value="sum">Sum into one row</option>
+        <option value="keepLast">Keep the last row</option>
+        <option value="block">Block the export</option>
+      </select>
+      <p className="text-xs text-gray-500 mt-1">For output rows with the same entity, currency, date, description and Atlar category, e.g. a category listed twice; merged rows are listed after the transform</p>
+    </div>
+  );
+
+  const fxField = (
+    <FxConversion
+      rates={fxRates}
+      target={fxTarget}
+      onTargetChange={setFxTarget}
+      onUpload={handleFxRatesUpload}
+      onClear={() => { setFxRates([]); setFxError(''); }}
+      uploadError={fxError}
+    />
+  );
+
+  const signField = (
+    <SignRules
+      rules={signRules}
+      onChange={handleSignRulesChange}
+      flipSigns={flipSigns}
+      onFlipSignsChange={setFlipSigns}
+      preview={signPreview}
+    />
+  );
+
+  const parentEntity = findEntity(parentId, entityDirectory);
+
+  const entityDirectoryField = (
+    <EntityDirectory
+      directory={entityDirectory}
+      onChange={handleEntityDirectoryChange}
+      onImport={handleEntityDirectoryImport}
+      onExport={handleEntityDirectoryExport}
+      importError={entityImportError}
+    />
+  );
+
+  const subtotalField = (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <input type="checkbox" checked={excludeSubtotals} onChange={(e) => setExcludeSubtotals(e.target.checked)} />
+        <span>Exclude parent and total rows that equal the sum of their children</span>
+      </label>
+      <SubtotalReport checks={subtotalChecks} />
+    </div>
+  );
+
+  const amountFormatField = (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Decimal separator</label>
+        <select value={decimalSetting} onChange={(e) => setDecimalSetting(e.target.value as DecimalSeparator | '')} className="input-field">
+          <option value="">Detect from file</option>
+          <option value=",">Comma (1 234,50)</option>
+          <option value=".">Dot (1,234.50)</option>
+        </select>
+        <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+          {decimalSummary.map(line => <li key={line}>Decimal separator: {line}</li>)}
+        </ul>
+      </div>
+      <CellIssues issues={amountIssues} />
+    </div>
+  );
+
   const handleCurrencyChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setCurrency(e.target.value.toUpperCase());
   }, []);
@@ -157,16 +600,22 @@ export default function Home() {
         <div className="mb-4 flex gap-2 justify-center">
           <button
             className={`px-4 py-2 rounded-md border ${activeTab==='single' ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'}`}
-            onClick={() => { setActiveTab('single'); setCurrentStep(1); setSelectedFile(null); setParsedData(null); setParsedDataMulti(null); setTransformedData([]); setError(''); setPeriodicity(''); }}
+            onClick={() => { setActiveTab('single'); setCurrentStep(1); setSelectedFile(null); setRawSheets([]); setSheetAssignments({}); setTransformedData([]); setError(''); setPeriodicity(''); }}
           >
             Single entity
           </button>
           <button
             className={`px-4 py-2 rounded-md border ${activeTab==='multi' ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'}`}
-            onClick={() => { setActiveTab('multi'); setCurrentStep(1); setSelectedFile(null); setParsedData(null); setParsedDataMulti(null); setTransformedData([]); setError(''); }}
+            onClick={() => { setActiveTab('multi'); setCurrentStep(1); setSelectedFile(null); setRawSheets([]); setSheetAssignments({}); setTransformedData([]); setError(''); }}
           >
             Multi-entity upload
           </button>
+          <button
+            className={`px-4 py-2 rounded-md border ${activeTab==='reverse' ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'}`}
+            onClick={() => { setActiveTab('reverse'); setCurrentStep(1); setSelectedFile(null); setRawSheets([]); setSheetAssignments({}); setTransformedData([]); setError(''); setReverseRows([]); }}
+          >
+            Atlar file to grid
+          </button>
         </div>
 
         {/* Header */}
@@ -174,7 +623,7 @@ export default function Home() {
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
             Forecast Transformer
           </h1>
-          <div className="flex justify-center space-x-4 mt-4">
+          {activeTab !== 'reverse' && <div className="flex justify-center space-x-4 mt-4">
             <div className={`flex items-center space-x-2 ${currentStep >= 1 ? 'text-primary-600' : 'text-gray-400'}`}>
               <div className={`w-8 h-8 rounded-full flex items-center justify-center ${currentStep >= 1 ? 'bg-primary-600 text-white' : 'bg-gray-200'}`}>
                 1
@@ -193,17 +642,87 @@ export default function Home() {
               </div>
               <span className="text-sm font-medium">Download</span>
             </div>
-          </div>
+          </div>}
         </div>
 
+        {activeTab === 'reverse' && (
+          <ReverseTransform
+            onFileSelect={handleReverseFileSelect}
+            onError={setError}
+            error={error}
+            isProcessing={isProcessing}
+            rowCount={reverseRows.length}
+            grid={reverseGrid}
+            entityColumns={reverseEntityColumns}
+            onEntityColumnsChange={setReverseEntityColumns}
+            onDownload={handleReverseDownload}
+          />
+        )}
+
         {/* Step 1: File Upload */}
-        {currentStep === 1 && (
+        {activeTab !== 'reverse' && currentStep === 1 && (
           <div className="card">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Upload your forecast file</h2>
             <FileUpload
               onFileSelect={handleFileSelect}
               onError={setError}
             />
+
+            {rawSheets[0]?.csv && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Delimiter</label>
+                <select value={delimiterSetting} onChange={(e) => setDelimiterSetting(e.target.value as CsvDelimiter | '')} className="input-field">
+                  <option value="">Detect from file</option>
+                  <option value=",">Comma (,)</option>
+                  <option value=";">Semicolon (;)</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value="|">Pipe (|)</option>
+                </select>
+                <p className="text-xs text-gray-600 mt-1">
+                  Delimiter: {DELIMITER_LABELS[sheetGrids[0].csv!.delimiter]}
+                  {delimiterSetting ? ' (set manually)' : rawSheets[0].csv.detected ? ' (detected)' : ' (single column, assumed)'}
+                </p>
+                <p className="text-xs text-gray-600">
+                  Encoding: {ENCODING_LABELS[rawSheets[0].csv.encoding.encoding]}
+                  {rawSheets[0].csv.encoding.source === 'bom' ? ' (byte-order mark)' : ' (detected)'}
+                </p>
+              </div>
+            )}
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Input layout</label>
+              <select value={layoutSetting} onChange={(e) => setLayoutSetting(e.target.value as InputLayout | '')} className="input-field">
+                <option value="">Detect from file</option>
+                <option value="wide">Wide (dates as columns right of Category)</option>
+                <option value="long">Long (Date, Category, Amount columns)</option>
+              </select>
+              {includedParsed.length > 0 && (
+                <p className="text-xs text-gray-600 mt-1">
+                  Layout: {includedParsed[0].parsed!.layout === 'long' ? 'long, pivoted by date' : 'wide'}
+                  {layoutSetting ? ' (set manually)' : ' (detected)'}
+                </p>
+              )}
+            </div>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Header row</label>
+              <input
+                type="number"
+                min={1}
+                value={headerRowSetting}
+                onChange={(e) => setHeaderRowSetting(e.target.value)}
+                className="input-field"
+                placeholder="Detect from file"
+              />
+              <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+                {includedParsed.map(sheet => (
+                  <li key={sheet.name}>
+                    {rawSheets.length > 1 ? `${sheet.name}: ` : ''}headers read from row {sheet.parsed!.headerRow.index + 1}
+                    {headerRowSetting ? ' (set manually)' : sheet.parsed!.headerRow.detected ? ' (detected)' : ' (no header row found, using first row)'}
+                  </li>
+                ))}
+              </ul>
+            </div>
             
             {isProcessing && (
               <div className="mt-4 flex items-center space-x-2 text-blue-600">
@@ -212,19 +731,49 @@ export default function Home() {
               </div>
             )}
 
-            {error && (
+            {(error || parseError) && (
               <div className="mt-4 p-4 border border-red-200 bg-red-50 rounded-lg">
                 <div className="flex items-start space-x-3">
                   <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
                   <div>
                     <h3 className="text-sm font-medium text-red-800">Error</h3>
-                    <p className="text-sm text-red-700 mt-1">{error}</p>
+                    <p className="text-sm text-red-700 mt-1">{error || parseError}</p>
                   </div>
                 </div>
               </div>
             )}
 
-            {selectedFile && ((activeTab==='single' && parsedData) || (activeTab==='multi' && parsedDataMulti)) && (
+            {rawSheets.length > 0 && (showColumnMapper || parseError) && (
+              <div className="mt-6">
+                <ColumnMapper
+                  headers={mapperHeaders}
+                  mapping={columnMapping}
+                  onChange={setColumnMapping}
+                  requireEntity={activeTab === 'multi'}
+                />
+              </div>
+            )}
+
+            {rawSheets.length > 0 && !parseError && !showColumnMapper && (
+              <button onClick={() => setShowColumnMapper(true)} className="mt-4 text-sm text-primary-600 hover:text-primary-700 underline">
+                Map columns manually
+              </button>
+            )}
+
+            {rawSheets.length > 1 && (
+              <div className="mt-6">
+                <SheetPicker
+                  sheets={sheetStatus}
+                  assignments={sheetAssignments}
+                  onChange={handleSheetAssignmentChange}
+                  showAssignment={activeTab === 'single'}
+                  defaultParentId={parentId}
+                  defaultCurrency={currency}
+                />
+              </div>
+            )}
+
+            {selectedFile && hasIncludedSheet && (
               <div className="mt-6">
                 <button
                   onClick={handleContinue}
@@ -239,12 +788,13 @@ export default function Home() {
         )}
 
         {/* Step 2 */}
-        {currentStep === 2 && (
+        {activeTab !== 'reverse' && currentStep === 2 && (
           <div className="card">
             {activeTab === 'multi' ? (
               <>
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">Transform data</h2>
                 <p className="text-sm text-gray-600 mb-6">Currency and Entity ID will be taken from the file.</p>
+                <div className="mb-6 space-y-6">{baseYearField}{dateOrderField}{allocationField}{amountFormatField}{roundingField}{subtotalField}{duplicatesField}{categoryMappingField}{signField}{fxField}{entityDirectoryField}</div>
                 <div className="flex space-x-4 mt-2">
                   <button
                     onClick={() => setCurrentStep(1)}
@@ -255,7 +805,7 @@ export default function Home() {
                   </button>
                   <button
                     onClick={handleTransform}
-                    disabled={isTransforming}
+                    disabled={isTransforming || unmappedCategories.length > 0}
                     className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                   >
                     {isTransforming ? (
@@ -290,31 +840,72 @@ export default function Home() {
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
                     <input type="text" value={currency} onChange={handleCurrencyChange} className="input-field" placeholder="SEK" maxLength={3} />
-                    <p className="text-xs text-gray-500 mt-1">Enter 3-letter currency code (e.g., SEK, USD, EUR)</p>
+                    {currency.length === 3 && !isIsoCurrency(currency) ? (
+                      <p className="text-xs text-red-700 mt-1">&quot;{currency}&quot; is not an ISO 4217 currency code</p>
+                    ) : (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Enter 3-letter currency code (e.g., SEK, USD, EUR)
+                        {isIsoCurrency(currency) && `; amounts get ${minorUnits(currency)} decimal${minorUnits(currency) === 1 ? '' : 's'}`}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Parent ID</label>
-                    <input type="text" value={parentId} onChange={(e) => setParentId(e.target.value)} className="input-field" placeholder="ENTITY_ID" />
+                    <input type="text" value={parentId} onChange={(e) => handleParentIdChange(e.target.value)} className="input-field" placeholder="Entity UUID, name or code" list="entity-directory" />
+                    <datalist id="entity-directory">
+                      {entityDirectory.map(entity => (
+                        <option key={entity.id} value={entity.code || entity.name}>{entity.name}</option>
+                      ))}
+                    </datalist>
+                    {parentId.trim() && (parentEntity ? (
+                      <p className="text-xs text-gray-500 mt-1">{parentEntity.name} ({parentEntity.id})</p>
+                    ) : !isUuid(parentId) && (
+                      <p className="text-xs text-red-700 mt-1">Not a UUID or an entity in the directory</p>
+                    ))}
                     <p className="text-sm text-gray-600 mt-2">Find your entity ID at{' '}<a href="https://app.atlar.com/entities" target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:text-primary-700 underline flex items-center space-x-1 text-base font-semibold"><span>app.atlar.com/entities</span><ExternalLink className="h-4 w-4" /></a></p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Periodicity</label>
                     <select
                       value={periodicity}
-                      onChange={(e) => setPeriodicity(e.target.value)}
+                      onChange={(e) => setPeriodicity(e.target.value as Periodicity | '')}
                       className="input-field"
                     >
-                      <option value="">Select periodicity</option>
+                      <option value="">Same as input columns</option>
                       <option value="Daily">Daily</option>
                       <option value="Weekly">Weekly</option>
                       <option value="Monthly">Monthly</option>
                     </select>
-                    <p className="text-xs text-gray-500 mt-1">Applies to single-entity uploads only</p>
+                    {periodicity === 'Weekly' && (
+                      <select value={weekAnchor} onChange={(e) => setWeekAnchor(parseInt(e.target.value, 10))} className="input-field mt-2">
+                        {WEEKDAY_LABELS.map((label, i) => (
+                          <option key={label} value={i + 1}>Weeks start on {label}</option>
+                        ))}
+                      </select>
+                    )}
+                    {periodicity === 'Monthly' && (
+                      <select value={monthAnchor} onChange={(e) => setMonthAnchor(e.target.value as MonthAnchor)} className="input-field mt-2">
+                        <option value="first">Book on the first day of the month</option>
+                        <option value="last">Book on the last day of the month</option>
+                      </select>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">Daily amounts are summed into weeks or months; week ranges and monthly columns are spread over their days first (see below). Totals are kept to the cent. Applies to single-entity uploads only</p>
                   </div>
+                  {baseYearField}
+                  {dateOrderField}
+                  {allocationField}
+                  {amountFormatField}
+                  {roundingField}
+                  {subtotalField}
+                  {duplicatesField}
+                  {categoryMappingField}
+                  {signField}
+                  {fxField}
+                  {entityDirectoryField}
                 </div>
                 <div className="flex space-x-4 mt-8">
                   <button onClick={() => setCurrentStep(1)} className="flex-1 btn-secondary flex items-center justify-center space-x-2"><ArrowLeft className="h-5 w-5" /><span>Back</span></button>
-                  <button onClick={handleTransform} disabled={isTransforming} className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2">{isTransforming ? (<><div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div><span>Processing...</span></>) : (<><span>Transform Data</span><ArrowRight className="h-5 w-5" /></>)}</button>
+                  <button onClick={handleTransform} disabled={isTransforming || unmappedCategories.length > 0} className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2">{isTransforming ? (<><div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div><span>Processing...</span></>) : (<><span>Transform Data</span><ArrowRight className="h-5 w-5" /></>)}</button>
                 </div>
                 {error && (<div className="mt-4 p-4 border border-red-200 bg-red-50 rounded-lg"><div className="flex items-start space-x-3"><AlertCircle className="h-5 w-5 text-red-600 mt-0.5" /><div><h3 className="text-sm font-medium text-red-800">Error</h3><p className="text-sm text-red-700 mt-1">{error}</p></div></div></div>)}
               </>
@@ -323,7 +914,7 @@ export default function Home() {
         )}
 
         {/* Step 3: Download */}
-        {currentStep === 3 && (
+        {activeTab !== 'reverse' && currentStep === 3 && (
           <div className="card">
             <div className="text-center">
               <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
@@ -331,14 +922,26 @@ export default function Home() {
               <p className="text-gray-600 mb-6">
                 Successfully transformed {transformedData.length} records
               </p>
+
+              {duplicates.length > 0 && (
+                <div className="mb-6 text-left">
+                  <DuplicateReport groups={duplicates} blocked={exportBlocked} />
+                </div>
+              )}
               
+              <div className="space-y-4 mb-6">
+                <ExportSplit options={splitOptions} onChange={setSplitOptions} files={exportFiles} />
+                <CsvOptions options={csvOutput} onChange={handleCsvOutputChange} />
+              </div>
+
               <div className="space-y-4 mb-6">
                 <button
                   onClick={handleDownload}
-                  className="w-full btn-primary flex items-center justify-center space-x-2"
+                  disabled={exportBlocked}
+                  className="w-full btn-primary disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
                   <Download className="h-5 w-5" />
-                  <span>Download CSV</span>
+                  <span>{exportFiles.length > 1 ? `Download ZIP (${exportFiles.length} files)` : 'Download CSV'}</span>
                 </button>
 
                 <button
@@ -350,6 +953,32 @@ export default function Home() {
                 </button>
               </div>
 
+              <div className="mb-6">
+                <AtlarExport
+                  target={atlarTarget}
+                  targetError={atlarTargetError}
+                  onRetryTarget={() => setAtlarTargetError('')}
+                  exportKey={atlarExportKey}
+                  onExportKeyChange={setAtlarExportKey}
+                  batchSize={atlarBatchSize}
+                  onBatchSizeChange={setAtlarBatchSize}
+                  results={atlarResults}
+                  sending={isSendingToAtlar}
+                  disabled={exportBlocked}
+                  onSend={handleSendToAtlar}
+                />
+              </div>
+
+              {exportBlocked && (
+                <button
+                  onClick={() => setCurrentStep(2)}
+                  className="w-full btn-secondary flex items-center justify-center space-x-2 mb-4"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                  <span>Back to settings</span>
+                </button>
+              )}
+
               <button
                 onClick={reset}
                 className="w-full btn-secondary"
@@ -0,0 +1,111 @@
+'use client';
+
+import { CheckCircle, UploadCloud, Loader2, XCircle } from 'lucide-react';
+import { AtlarTarget, BatchResult } from '@/lib/atlarApi';
+
+interface AtlarExportProps {
+  target: AtlarTarget | null;
+  // Why the server settings couldn't be read; sending stays off until a retry succeeds
+  targetError: string;
+  onRetryTarget: () => void;
+  exportKey: string;
+  onExportKeyChange: (exportKey: string) => void;
+  batchSize: number;
+  onBatchSizeChange: (batchSize: number) => void;
+  results: BatchResult[];
+  sending: boolean;
+  disabled: boolean;
+  onSend: () => void;
+}
+
+const STATUS_LABELS: { [status in BatchResult['status']]: string } = {
+  pending: 'Waiting',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed'
+};
+
+export default function AtlarExport({ target, targetError, onRetryTarget, exportKey, onExportKeyChange, batchSize, onBatchSizeChange, results, sending, disabled, onSend }: AtlarExportProps) {
+  const sent = results.filter(result => result.status === 'sent').length;
+  const failed = results.filter(result => result.status === 'failed').length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 text-left">
+      <div className="flex items-center space-x-2 mb-3">
+        <UploadCloud className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-700">Send to Atlar</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        {targetError ? (
+          <span className="text-red-700">
+            {targetError}.{' '}
+            <button onClick={onRetryTarget} className="text-primary-600 hover:text-primary-700 underline">Try again</button>
+          </span>
+        ) : target === null
+          ? 'Reading the server settings...'
+          : target.mode === 'none'
+            ? 'No Atlar API is configured on the server (ATLAR_API_BASE_URL).'
+            : target.mode === 'mock'
+              ? 'Dry run: no Atlar API is configured on the server, so batches go to the bundled mock endpoint.'
+              : `Batches are sent to ${target.baseUrl}.`}
+        {' '}Each batch has an idempotency key, so sending the same data again does not create duplicates.
+      </p>
+      <div className="flex items-center space-x-3">
+        <label className="text-xs text-gray-600 flex items-center space-x-2">
+          <span>Rows per batch</span>
+          <input
+            type="number"
+            min={1}
+            value={batchSize}
+            onChange={(e) => onBatchSizeChange(parseInt(e.target.value, 10) || 1)}
+            className="input-field text-sm w-24"
+          />
+        </label>
+        {target?.keyRequired && (
+          <label className="text-xs text-gray-600 flex items-center space-x-2">
+            <span>Export key</span>
+            <input
+              type="password"
+              value={exportKey}
+              onChange={(e) => onExportKeyChange(e.target.value)}
+              className="input-field text-sm w-40"
+            />
+          </label>
+        )}
+        <button
+          onClick={onSend}
+          disabled={disabled || sending || target === null || target.mode === 'none' || (target.keyRequired && !exportKey)}
+          className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+        >
+          {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UploadCloud className="h-4 w-4" />}
+          <span>{target?.mode === 'mock' ? 'Send to mock' : 'Send to Atlar'}</span>
+        </button>
+      </div>
+      {results.length > 0 && (
+        <>
+          <p className="text-xs text-gray-600 mt-3">
+            {sent} of {results.length} batch{results.length === 1 ? '' : 'es'} sent{failed > 0 ? `, ${failed} failed` : ''}
+          </p>
+          <ul className="text-xs mt-1 space-y-0.5">
+            {results.map(result => (
+              <li
+                key={result.index}
+                className={`flex items-center space-x-2 ${result.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}
+              >
+                {result.status === 'sent' && <CheckCircle className="h-3 w-3 text-green-600" />}
+                {result.status === 'failed' && <XCircle className="h-3 w-3" />}
+                {result.status === 'sending' && <Loader2 className="h-3 w-3 animate-spin" />}
+                <span>
+                  Batch {result.index + 1} ({result.rows} rows): {STATUS_LABELS[result.status]}
+                  {result.attempts > 1 && ` after ${result.attempts} attempts`}
+                  {result.httpStatus !== null && ` (HTTP ${result.httpStatus})`}
+                  {result.error && ` - ${result.error}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
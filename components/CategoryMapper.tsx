@@ -0,0 +1,105 @@
+'use client';
+
+import { AlertTriangle, Plus, Tags, Trash2, Upload } from 'lucide-react';
+import { CategoryMappingEntry } from '@/lib/parsers';
+
+interface CategoryMapperProps {
+  entries: CategoryMappingEntry[];
+  onChange: (entries: CategoryMappingEntry[]) => void;
+  onUpload: (file: File) => void;
+  unmapped: string[];
+  uploadError?: string;
+}
+
+export default function CategoryMapper({ entries, onChange, onUpload, unmapped, uploadError }: CategoryMapperProps) {
+  const update = (index: number, entry: CategoryMappingEntry) =>
+    onChange(entries.map((existing, i) => (i === index ? entry : existing)));
+  const remove = (index: number) => onChange(entries.filter((_, i) => i !== index));
+  const add = (source: string = '') => onChange([...entries, { source, category: '' }]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Tags className="h-4 w-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-700">Category mapping</h3>
+        </div>
+        <label className="text-sm text-primary-600 hover:text-primary-700 cursor-pointer flex items-center space-x-1">
+          <Upload className="h-4 w-4" />
+          <span>Upload table</span>
+          <input
+            type="file"
+            accept=".csv,.txt,.tsv,.xlsx,.xls"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Maps category paths (&quot;Opex&gt;Marketing&gt;Ads&quot;) or leaves (&quot;Ads&quot;) to Atlar categories, with an optional description.
+        Uploaded tables need &quot;Source&quot; and &quot;Atlar Category&quot; columns. Leave the table empty to use the category leaf as-is.
+      </p>
+      {uploadError && <p className="text-xs text-red-700 mb-3">{uploadError}</p>}
+      {entries.length > 0 && (
+        <div className="space-y-2">
+          {entries.map((entry, i) => (
+            <div key={i} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={entry.source}
+                onChange={(e) => update(i, { ...entry, source: e.target.value })}
+                className="input-field text-sm"
+                placeholder="Source category"
+              />
+              <input
+                type="text"
+                value={entry.category}
+                onChange={(e) => update(i, { ...entry, category: e.target.value })}
+                className="input-field text-sm"
+                placeholder="Atlar category"
+              />
+              <input
+                type="text"
+                value={entry.description ?? ''}
+                onChange={(e) => update(i, { ...entry, description: e.target.value || undefined })}
+                className="input-field text-sm"
+                placeholder="Description (optional)"
+              />
+              <button onClick={() => remove(i)} className="text-gray-400 hover:text-red-600" title="Remove">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button onClick={() => add()} className="mt-3 text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1">
+        <Plus className="h-4 w-4" />
+        <span>Add mapping</span>
+      </button>
+      {unmapped.length > 0 && (
+        <div className="mt-4 p-3 border border-yellow-200 bg-yellow-50 rounded-lg">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5" />
+            <div className="min-w-0">
+              <h4 className="text-sm font-medium text-yellow-800">
+                {unmapped.length} categor{unmapped.length === 1 ? 'y has' : 'ies have'} no mapping yet
+              </h4>
+              <ul className="text-xs text-yellow-700 mt-2 space-y-1">
+                {unmapped.map(category => (
+                  <li key={category} className="flex items-center space-x-2">
+                    <span className="truncate" title={category}>{category}</span>
+                    <button onClick={() => add(category)} className="text-primary-600 hover:text-primary-700 underline">Map</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
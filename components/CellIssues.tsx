@@ -0,0 +1,41 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { CellIssue } from '@/lib/parsers';
+
+interface CellIssuesProps {
+  issues: (CellIssue & { sheet?: string })[];
+  maxShown?: number;
+}
+
+export default function CellIssues({ issues, maxShown = 20 }: CellIssuesProps) {
+  if (issues.length === 0) return null;
+
+  const skipped = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - skipped;
+
+  return (
+    <div className="p-4 border border-yellow-200 bg-yellow-50 rounded-lg">
+      <div className="flex items-start space-x-3">
+        <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-yellow-800">
+            {skipped > 0 && `${skipped} cell${skipped === 1 ? '' : 's'} could not be read and will be skipped`}
+            {skipped > 0 && warnings > 0 && '; '}
+            {warnings > 0 && `${warnings} cell${warnings === 1 ? '' : 's'} read with an assumed convention`}
+          </h3>
+          <ul className="text-xs text-yellow-700 mt-2 space-y-0.5">
+            {issues.slice(0, maxShown).map((issue, i) => (
+              <li key={i}>
+                {issue.sheet ? `${issue.sheet}, ` : ''}row {issue.rowNumber}, &quot;{issue.header}&quot;: &quot;{issue.value}&quot; &ndash; {issue.message}
+              </li>
+            ))}
+          </ul>
+          {issues.length > maxShown && (
+            <p className="text-xs text-yellow-700 mt-1">and {issues.length - maxShown} more</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { Columns } from 'lucide-react';
+import { ColumnMapping, ColumnRole } from '@/lib/parsers';
+
+interface ColumnMapperProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  requireEntity?: boolean; // Entity ID and Currency are required in multi-entity mode
+}
+
+const ROLE_LABELS: { role: ColumnRole; label: string }[] = [
+  { role: 'category', label: 'Category' },
+  { role: 'description', label: 'Description' },
+  { role: 'entityId', label: 'Entity ID' },
+  { role: 'currency', label: 'Currency' },
+  { role: 'direction', label: 'Direction' },
+  { role: 'metadata', label: 'Metadata' },
+  { role: 'ignore', label: 'Ignore' }
+];
+
+// Roles that only one column can have
+const SINGLE_COLUMN_ROLES: ColumnRole[] = ['category', 'description', 'entityId', 'currency', 'direction'];
+
+export default function ColumnMapper({ headers, mapping, onChange, requireEntity = false }: ColumnMapperProps) {
+  const named = headers.map(h => h.trim()).filter(h => h !== '');
+  const assigned = (role: ColumnRole) => named.some(h => mapping[h] === role);
+  const required: ColumnRole[] = requireEntity ? ['category', 'entityId', 'currency'] : ['category'];
+  const missing = required.filter(role => !assigned(role));
+
+  const setRole = (header: string, role: ColumnRole | '') => {
+    const next: ColumnMapping = {};
+    for (const key of Object.keys(mapping)) {
+      // Moving a single-column role clears it from the column that had it
+      if (key !== header && !(role && SINGLE_COLUMN_ROLES.includes(role) && mapping[key] === role)) {
+        next[key] = mapping[key];
+      }
+    }
+    if (role) next[header] = role;
+    onChange(next);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <Columns className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-700">Map columns</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Columns left as &quot;Auto&quot; are matched by name; date columns are detected automatically.
+        &quot;Metadata&quot; columns (e.g. Cost Center, Owner) are passed through as metadata.&lt;name&gt; output columns.
+        The mapping is remembered for files with the same headers.
+      </p>
+      <div className="space-y-2">
+        {named.map((header, i) => (
+          <div key={`${header}-${i}`} className="flex items-center space-x-3">
+            <span className="flex-1 text-sm text-gray-900 truncate" title={header}>{header}</span>
+            <select
+              value={mapping[header] ?? ''}
+              onChange={(e) => setRole(header, e.target.value as ColumnRole | '')}
+              className="input-field text-sm w-40"
+            >
+              <option value="">Auto</option>
+              {ROLE_LABELS.map(({ role, label }) => (
+                <option key={role} value={role}>{label}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      {missing.length > 0 && (
+        <p className="text-xs text-gray-600 mt-3">
+          Not mapped yet: {missing.map(role => ROLE_LABELS.find(r => r.role === role)!.label).join(', ')}
+          {' '}(unless a column already has that name)
+        </p>
+      )}
+    </div>
+  );
+}
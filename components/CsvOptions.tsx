@@ -0,0 +1,78 @@
+'use client';
+
+import { FileText } from 'lucide-react';
+import { CsvColumns, CsvDelimiter, CsvOutputOptions, CsvQuoting, LineEnding } from '@/lib/parsers';
+
+interface CsvOptionsProps {
+  options: CsvOutputOptions;
+  onChange: (options: CsvOutputOptions) => void;
+}
+
+const DELIMITER_LABELS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export default function CsvOptions({ options, onChange }: CsvOptionsProps) {
+  const update = (changes: Partial<CsvOutputOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 text-left">
+      <div className="flex items-center space-x-2 mb-3">
+        <FileText className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-700">CSV format</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          Delimiter
+          <select
+            value={options.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value as CsvDelimiter })}
+            className="input-field text-sm mt-1"
+          >
+            {DELIMITER_LABELS.map(({ value, label }) => <option key={label} value={value}>{label}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Quoting
+          <select
+            value={options.quoting}
+            onChange={(e) => update({ quoting: e.target.value as CsvQuoting })}
+            className="input-field text-sm mt-1"
+          >
+            <option value="minimal">Only when needed</option>
+            <option value="all">All fields</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Line endings
+          <select
+            value={options.lineEnding}
+            onChange={(e) => update({ lineEnding: e.target.value as LineEnding })}
+            className="input-field text-sm mt-1"
+          >
+            <option value="crlf">CRLF (Windows, Atlar template)</option>
+            <option value="lf">LF (Unix)</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Columns
+          <select
+            value={options.columns}
+            onChange={(e) => update({ columns: e.target.value as CsvColumns })}
+            className="input-field text-sm mt-1"
+          >
+            <option value="all">Template columns, then metadata</option>
+            <option value="template">Template columns only</option>
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center space-x-2 text-sm text-gray-700 mt-3">
+        <input type="checkbox" checked={options.bom} onChange={(e) => update({ bom: e.target.checked })} />
+        <span>Add a UTF-8 BOM (for opening in Excel; leave off for the Atlar import)</span>
+      </label>
+    </div>
+  );
+}
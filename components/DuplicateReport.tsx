@@ -0,0 +1,44 @@
+'use client';
+
+import { AlertCircle, Copy } from 'lucide-react';
+import { DuplicateGroup } from '@/lib/parsers';
+
+interface DuplicateReportProps {
+  groups: DuplicateGroup[];
+  blocked: boolean;
+  maxShown?: number;
+}
+
+export default function DuplicateReport({ groups, blocked, maxShown = 20 }: DuplicateReportProps) {
+  if (groups.length === 0) return null;
+
+  const merged = groups.reduce((sum, group) => sum + group.sources.length, 0);
+  const Icon = blocked ? AlertCircle : Copy;
+
+  return (
+    <div className={`p-4 border rounded-lg ${blocked ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="flex items-start space-x-3">
+        <Icon className={`h-5 w-5 mt-0.5 ${blocked ? 'text-red-600' : 'text-gray-600'}`} />
+        <div className="min-w-0">
+          <h3 className={`text-sm font-medium ${blocked ? 'text-red-800' : 'text-gray-800'}`}>
+            {blocked
+              ? `${groups.length} duplicate row${groups.length === 1 ? '' : 's'} found; the CSV export is blocked until they are resolved in the source file or the duplicate setting is changed`
+              : `${merged} rows merged into ${groups.length} (same entity, currency, date, description and Atlar category)`}
+          </h3>
+          <ul className={`text-xs mt-2 space-y-0.5 ${blocked ? 'text-red-700' : 'text-gray-600'}`}>
+            {groups.slice(0, maxShown).map((group, i) => (
+              <li key={i}>
+                {group.parentId} {group.currency}, {group.date}, &quot;{group.description}&quot;{group.category && ` in ${group.category}`}:{' '}
+                {group.sources.map(source => `${source.sheet ? `${source.sheet} ` : ''}row ${source.rowNumber} (${source.amount})`).join(', ')}
+                {group.result !== null && ` → ${group.result}`}
+              </li>
+            ))}
+          </ul>
+          {groups.length > maxShown && (
+            <p className={`text-xs mt-1 ${blocked ? 'text-red-700' : 'text-gray-600'}`}>and {groups.length - maxShown} more</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
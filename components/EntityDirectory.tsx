@@ -0,0 +1,108 @@
+'use client';
+
+import { Building2, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { EntityRecord, validateEntityDirectory } from '@/lib/entities';
+
+interface EntityDirectoryProps {
+  directory: EntityRecord[];
+  onChange: (directory: EntityRecord[]) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  importError?: string;
+}
+
+export default function EntityDirectory({ directory, onChange, onImport, onExport, importError }: EntityDirectoryProps) {
+  const problems = validateEntityDirectory(directory);
+  const update = (index: number, entity: EntityRecord) =>
+    onChange(directory.map((existing, i) => (i === index ? entity : existing)));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Building2 className="h-4 w-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-700">Entity directory</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="text-sm text-primary-600 hover:text-primary-700 cursor-pointer flex items-center space-x-1">
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {directory.length > 0 && (
+            <button onClick={onExport} className="text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1">
+              <Download className="h-4 w-4" />
+              <span>Export</span>
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Entity names and codes used in the form or the file are resolved to these UUIDs. The default currency is used when a sheet or row has none.
+        Stored in this browser; import and export as JSON.
+      </p>
+      {importError && <p className="text-xs text-red-700 mb-3">{importError}</p>}
+      {directory.length > 0 && (
+        <div className="space-y-2">
+          {directory.map((entity, i) => (
+            <div key={i} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={entity.name}
+                onChange={(e) => update(i, { ...entity, name: e.target.value })}
+                className="input-field text-sm"
+                placeholder="Name"
+              />
+              <input
+                type="text"
+                value={entity.code}
+                onChange={(e) => update(i, { ...entity, code: e.target.value })}
+                className="input-field text-sm w-28"
+                placeholder="Code"
+              />
+              <input
+                type="text"
+                value={entity.id}
+                onChange={(e) => update(i, { ...entity, id: e.target.value.trim() })}
+                className="input-field text-sm font-mono"
+                placeholder="UUID"
+              />
+              <input
+                type="text"
+                value={entity.currency ?? ''}
+                onChange={(e) => update(i, { ...entity, currency: e.target.value.toUpperCase() || undefined })}
+                className="input-field text-sm w-24"
+                placeholder="Currency"
+                maxLength={3}
+              />
+              <button onClick={() => onChange(directory.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-600" title="Remove">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => onChange([...directory, { name: '', code: '', id: '' }])}
+        className="mt-3 text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add entity</span>
+      </button>
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-700 mt-3 space-y-0.5">
+          {problems.map((problem, i) => <li key={i}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { FolderArchive } from 'lucide-react';
+import { ExportFile, SplitBy, SplitOptions } from '@/lib/exports';
+
+interface ExportSplitProps {
+  options: SplitOptions;
+  onChange: (options: SplitOptions) => void;
+  files: ExportFile[];
+  maxShown?: number;
+}
+
+export default function ExportSplit({ options, onChange, files, maxShown = 8 }: ExportSplitProps) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 text-left">
+      <div className="flex items-center space-x-2 mb-3">
+        <FolderArchive className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-700">Files</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          Split by
+          <select
+            value={options.by}
+            onChange={(e) => onChange({ ...options, by: e.target.value as SplitBy })}
+            className="input-field text-sm mt-1"
+          >
+            <option value="none">One file</option>
+            <option value="entity">Entity</option>
+            <option value="entityCurrency">Entity and currency</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Max rows per file
+          <input
+            type="number"
+            min={1}
+            value={options.maxRows ?? ''}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              onChange({ ...options, maxRows: value > 0 ? value : null });
+            }}
+            className="input-field text-sm mt-1"
+            placeholder="No limit"
+          />
+        </label>
+      </div>
+      {files.length > 1 && (
+        <>
+          <p className="text-xs text-gray-600 mt-3">
+            {files.length} files, downloaded as one ZIP with a manifest.json listing row counts and totals:
+          </p>
+          <ul className="text-xs text-gray-600 mt-1 space-y-0.5 font-mono">
+            {files.slice(0, maxShown).map(file => (
+              <li key={file.name}>{file.name}.csv ({file.rows.length} rows)</li>
+            ))}
+            {files.length > maxShown && <li>... and {files.length - maxShown} more</li>}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
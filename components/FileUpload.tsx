@@ -13,7 +13,7 @@ interface FileUploadProps {
 export default function FileUpload({ 
   onFileSelect, 
   onError, 
-  acceptedTypes = ['.csv', '.xlsx', '.xls'],
+  acceptedTypes = ['.csv', '.txt', '.tsv', '.xlsx', '.xls'],
   maxSize = 10 
 }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
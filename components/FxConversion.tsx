@@ -0,0 +1,70 @@
+'use client';
+
+import { ArrowRightLeft, Upload } from 'lucide-react';
+import { FxRate } from '@/lib/fx';
+import { isIsoCurrency } from '@/lib/currencies';
+
+interface FxConversionProps {
+  rates: FxRate[];
+  target: string;
+  onTargetChange: (target: string) => void;
+  onUpload: (file: File) => void;
+  onClear: () => void;
+  uploadError?: string;
+}
+
+export default function FxConversion({ rates, target, onTargetChange, onUpload, onClear, uploadError }: FxConversionProps) {
+  const pairs = Array.from(new Set(rates.map(rate => `${rate.from}/${rate.to}`)));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <ArrowRightLeft className="h-4 w-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-700">Reporting currency</h3>
+        </div>
+        <label className="text-sm text-primary-600 hover:text-primary-700 cursor-pointer flex items-center space-x-1">
+          <Upload className="h-4 w-4" />
+          <span>Upload rates</span>
+          <input
+            type="file"
+            accept=".csv,.txt,.tsv,.xlsx,.xls"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Converts every row into one currency at the rate valid on its date. Rate tables need a &quot;Pair&quot; column (e.g. EUR/SEK, meaning 1 EUR in SEK)
+        or &quot;From&quot; and &quot;To&quot; columns, a &quot;Rate&quot; column, and optional &quot;Valid From&quot; / &quot;Valid To&quot; dates.
+        The original currency, amount and rate are kept as metadata columns.
+      </p>
+      {uploadError && <p className="text-xs text-red-700 mb-3">{uploadError}</p>}
+      <div className="flex items-center space-x-3">
+        <input
+          type="text"
+          value={target}
+          onChange={(e) => onTargetChange(e.target.value.toUpperCase())}
+          className="input-field text-sm w-32"
+          placeholder="Target, e.g. SEK"
+          maxLength={3}
+        />
+        <span className="text-xs text-gray-600 flex-1">
+          {rates.length > 0
+            ? `${rates.length} rate${rates.length === 1 ? '' : 's'} loaded (${pairs.slice(0, 6).join(', ')}${pairs.length > 6 ? ', ...' : ''})`
+            : 'No rates loaded; leave the target empty to keep the original currencies'}
+        </span>
+        {rates.length > 0 && (
+          <button onClick={onClear} className="text-xs text-gray-500 hover:text-red-600 underline">Clear</button>
+        )}
+      </div>
+      {target.length === 3 && !isIsoCurrency(target) && (
+        <p className="text-xs text-red-700 mt-2">&quot;{target}&quot; is not an ISO 4217 currency code</p>
+      )}
+    </div>
+  );
+}
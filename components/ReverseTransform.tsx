@@ -0,0 +1,103 @@
+'use client';
+
+import { AlertCircle, AlertTriangle, Download } from 'lucide-react';
+import FileUpload from '@/components/FileUpload';
+import { ForecastGrid } from '@/lib/reverse';
+
+interface ReverseTransformProps {
+  onFileSelect: (file: File) => void;
+  onError: (error: string) => void;
+  error: string;
+  isProcessing: boolean;
+  rowCount: number;
+  grid: ForecastGrid | null;
+  entityColumns: boolean;
+  onEntityColumnsChange: (entityColumns: boolean) => void;
+  onDownload: () => void;
+}
+
+export default function ReverseTransform({
+  onFileSelect,
+  onError,
+  error,
+  isProcessing,
+  rowCount,
+  grid,
+  entityColumns,
+  onEntityColumnsChange,
+  onDownload
+}: ReverseTransformProps) {
+  // One entity and currency can do without the columns; more always need them
+  const columnsRequired = grid !== null && (grid.entities > 1 || grid.currencies > 1);
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Atlar file to forecast grid</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Upload an Atlar forecast CSV or XLSX (the columns this tool exports) to get it back as a spreadsheet with a row per
+        category and a column per date. Transforming the edited grid again gives the same rows.
+      </p>
+      <FileUpload onFileSelect={onFileSelect} onError={onError} />
+
+      {isProcessing && (
+        <div className="mt-4 flex items-center space-x-2 text-blue-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span>Processing file...</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-4 border border-red-200 bg-red-50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {grid && (
+        <div className="mt-6 space-y-4">
+          <p className="text-sm text-gray-700">
+            {rowCount} forecast row{rowCount === 1 ? '' : 's'} become {grid.categories} grid row{grid.categories === 1 ? '' : 's'} over{' '}
+            {grid.dates} date{grid.dates === 1 ? '' : 's'} ({grid.entities} entit{grid.entities === 1 ? 'y' : 'ies'}, {grid.currencies} currenc
+            {grid.currencies === 1 ? 'y' : 'ies'}).
+          </p>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={grid.entityColumns}
+              disabled={columnsRequired}
+              onChange={(e) => onEntityColumnsChange(e.target.checked)}
+            />
+            <span>Entity ID and Currency columns (for the multi-entity upload)</span>
+          </label>
+          {columnsRequired ? (
+            <p className="text-xs text-gray-500">Always included: the file has more than one entity or currency.</p>
+          ) : !entityColumns && (
+            <p className="text-xs text-gray-500">Without them, enter the entity and currency when transforming the grid.</p>
+          )}
+          {grid.subtotalCategories.length > 0 && (
+            <div className="p-3 border border-yellow-200 bg-yellow-50 rounded-lg">
+              <div className="flex items-start space-x-2">
+                <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5" />
+                <div className="min-w-0">
+                  <h4 className="text-sm font-medium text-yellow-800">
+                    {grid.subtotalCategories.length} categor{grid.subtotalCategories.length === 1 ? 'y reads' : 'ies read'} as a total or parent row
+                  </h4>
+                  <p className="text-xs text-yellow-700 mt-1">
+                    {grid.subtotalCategories.join(', ')}. When transforming the grid again, turn off &quot;Exclude parent and total rows
+                    that equal the sum of their children&quot;, or rows that add up are left out.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+          <button onClick={onDownload} className="w-full btn-primary flex items-center justify-center space-x-2">
+            <Download className="h-5 w-5" />
+            <span>Download grid (XLSX)</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { FileSpreadsheet } from 'lucide-react';
+import { SheetAssignment } from '@/lib/parsers';
+
+interface SheetPickerProps {
+  sheets: { name: string; error?: string }[];
+  assignments: Record<string, SheetAssignment>;
+  onChange: (sheetName: string, assignment: SheetAssignment) => void;
+  showAssignment?: boolean; // Entity ID / currency per sheet (single-entity mode only)
+  defaultParentId?: string;
+  defaultCurrency?: string;
+}
+
+export default function SheetPicker({
+  sheets,
+  assignments,
+  onChange,
+  showAssignment = true,
+  defaultParentId = '',
+  defaultCurrency = ''
+}: SheetPickerProps) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-700">Sheets</h3>
+      {sheets.map(sheet => {
+        const assignment = assignments[sheet.name] ?? { included: false, parentId: '', currency: '' };
+        const usable = !sheet.error;
+        return (
+          <div
+            key={sheet.name}
+            className={`border rounded-lg p-3 ${usable ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+          >
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={usable && assignment.included}
+                disabled={!usable}
+                onChange={(e) => onChange(sheet.name, { ...assignment, included: e.target.checked })}
+              />
+              <FileSpreadsheet className="h-4 w-4 text-gray-500" />
+              <span className="text-sm font-medium text-gray-900">{sheet.name}</span>
+            </label>
+            {!usable && (
+              <p className="text-xs text-gray-500 mt-1 ml-7">{sheet.error}</p>
+            )}
+            {usable && assignment.included && showAssignment && (
+              <div className="flex space-x-2 mt-2 ml-7">
+                <input
+                  type="text"
+                  value={assignment.parentId}
+                  onChange={(e) => onChange(sheet.name, { ...assignment, parentId: e.target.value })}
+                  className="input-field text-sm"
+                  placeholder={defaultParentId ? `Entity ID (default: ${defaultParentId})` : 'Entity ID'}
+                />
+                <input
+                  type="text"
+                  value={assignment.currency}
+                  onChange={(e) => onChange(sheet.name, { ...assignment, currency: e.target.value.toUpperCase() })}
+                  className="input-field text-sm w-28"
+                  placeholder={defaultCurrency || 'Currency'}
+                  maxLength={3}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { Plus, PlusCircle, Trash2 } from 'lucide-react';
+import { Direction, SignRule, SignTotal } from '@/lib/parsers';
+
+interface SignRulesProps {
+  rules: SignRule[];
+  onChange: (rules: SignRule[]) => void;
+  flipSigns: boolean;
+  onFlipSignsChange: (flipSigns: boolean) => void;
+  // Totals per currency under the current settings; null before the configure step
+  preview: SignTotal[] | null;
+}
+
+const formatTotal = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function SignRules({ rules, onChange, flipSigns, onFlipSignsChange, preview }: SignRulesProps) {
+  const update = (index: number, rule: SignRule) => onChange(rules.map((existing, i) => (i === index ? rule : existing)));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <PlusCircle className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-700">Signs</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Outflows are negated. Categories matching a rule (e.g. &quot;Ops&gt;*&quot;; the first match wins) take its direction;
+        a &quot;Direction&quot; column with values like in/out or inflow/outflow decides before the rules.
+      </p>
+      {rules.length > 0 && (
+        <div className="space-y-2">
+          {rules.map((rule, i) => (
+            <div key={i} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => update(i, { ...rule, pattern: e.target.value })}
+                className="input-field text-sm"
+                placeholder="Category, e.g. Ops>*"
+              />
+              <select
+                value={rule.direction}
+                onChange={(e) => update(i, { ...rule, direction: e.target.value as Direction })}
+                className="input-field text-sm w-36"
+              >
+                <option value="outflow">Outflow</option>
+                <option value="inflow">Inflow</option>
+              </select>
+              <button onClick={() => onChange(rules.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-600" title="Remove">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => onChange([...rules, { pattern: '', direction: 'outflow' }])}
+        className="mt-3 text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add rule</span>
+      </button>
+      <label className="flex items-center space-x-2 text-sm text-gray-700 mt-3">
+        <input type="checkbox" checked={flipSigns} onChange={(e) => onFlipSignsChange(e.target.checked)} />
+        <span>Flip all signs</span>
+      </label>
+      {preview && preview.length > 0 && (
+        <ul className="text-xs text-gray-600 mt-3 space-y-0.5">
+          {preview.map(total => (
+            <li key={total.currency}>
+              {total.currency}: inflow {formatTotal(total.inflow)}, outflow {formatTotal(total.outflow)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
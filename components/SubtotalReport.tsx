@@ -0,0 +1,62 @@
+'use client';
+
+import { AlertTriangle, Layers } from 'lucide-react';
+import { SubtotalCheck } from '@/lib/parsers';
+
+interface SubtotalReportProps {
+  checks: (SubtotalCheck & { sheet?: string })[];
+}
+
+export default function SubtotalReport({ checks }: SubtotalReportProps) {
+  if (checks.length === 0) return null;
+
+  const excluded = checks.filter(check => check.excluded);
+  const mismatched = checks.filter(check => check.mismatches.length > 0);
+  const where = (check: SubtotalCheck & { sheet?: string }) =>
+    `${check.sheet ? `${check.sheet}, ` : ''}row ${check.rowNumber}`;
+
+  return (
+    <div className="space-y-3">
+      {excluded.length > 0 && (
+        <div className="p-4 border border-gray-200 bg-gray-50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <Layers className="h-5 w-5 text-gray-600 mt-0.5" />
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium text-gray-800">
+                {excluded.length} subtotal row{excluded.length === 1 ? '' : 's'} excluded (equal to the sum of their children)
+              </h3>
+              <ul className="text-xs text-gray-600 mt-2 space-y-0.5">
+                {excluded.map(check => (
+                  <li key={`${check.sheet ?? ''}-${check.rowIndex}`}>
+                    {where(check)}: &quot;{check.category}&quot; = {check.children.join(' + ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+      {mismatched.length > 0 && (
+        <div className="p-4 border border-yellow-200 bg-yellow-50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium text-yellow-800">
+                {mismatched.length} parent or total row{mismatched.length === 1 ? '' : 's'} differ from their children and will be imported as-is
+              </h3>
+              <ul className="text-xs text-yellow-700 mt-2 space-y-0.5">
+                {mismatched.map(check => (
+                  <li key={`${check.sheet ?? ''}-${check.rowIndex}`}>
+                    {where(check)}: &quot;{check.category}&quot; vs {check.children.length} child row{check.children.length === 1 ? '' : 's'}
+                    {' '}({check.mismatches.slice(0, 3).map(m => `${m.header}: ${m.value} vs ${m.childrenSum}`).join(', ')}
+                    {check.mismatches.length > 3 ? ', ...' : ''})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
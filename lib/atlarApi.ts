@@ -0,0 +1,139 @@
+import { TransformedRow, parseDate } from './parsers';
+
+// One forecast entry as the Atlar API takes it; the CSV's dotted columns become nested fields
+// and every metadata.* column a key in the flat metadata map
+export interface ForecastPayload {
+  amount: { currency: string; stringValue: string };
+  date: string;
+  parent: { id: string; type: string };
+  description: string;
+  metadata: { [key: string]: string };
+}
+
+export const DEFAULT_BATCH_SIZE = 500;
+
+// Where the server route sends batches: the bundled mock unless ATLAR_API_BASE_URL is configured,
+// or nowhere when neither is available
+export interface AtlarTarget {
+  mode: 'mock' | 'live' | 'none';
+  baseUrl: string;
+  // ATLAR_EXPORT_KEY is set: every batch must carry it in the EXPORT_KEY_HEADER header
+  keyRequired: boolean;
+}
+
+export const EXPORT_KEY_HEADER = 'X-Export-Key';
+
+// Reply of POST /api/atlar/forecasts for one batch
+export interface SendBatchResponse {
+  ok: boolean;
+  status: number | null; // HTTP status of the last attempt; null when Atlar could not be reached
+  attempts: number;
+  idempotencyKey: string;
+  error?: string;
+}
+
+export type BatchStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface BatchResult {
+  index: number;
+  rows: number;
+  status: BatchStatus;
+  attempts: number;
+  httpStatus: number | null;
+  idempotencyKey?: string;
+  error?: string;
+}
+
+export function toForecastPayload(row: TransformedRow): ForecastPayload {
+  const metadata: { [key: string]: string } = {};
+  Object.keys(row).forEach(column => {
+    const value = row[column as keyof TransformedRow];
+    if (column.indexOf('metadata.') === 0 && value !== undefined && value !== '') {
+      metadata[column.slice('metadata.'.length)] = String(value);
+    }
+  });
+  return {
+    amount: { currency: row['amount.currency'], stringValue: row['amount.stringValue'] },
+    date: parseDate(String(row['date'])) || String(row['date']),
+    parent: { id: row['parent.id'], type: row['parent.type'] },
+    description: row['description'],
+    metadata
+  };
+}
+
+// Field problems the API would reject, one message per bad entry (first few only)
+export function validateForecasts(forecasts: unknown): string[] {
+  if (!Array.isArray(forecasts) || forecasts.length === 0) return ['"forecasts" must be a non-empty list'];
+  const problems: string[] = [];
+  forecasts.forEach((forecast: any, i) => {
+    if (problems.length >= 5) return;
+    const missing = [
+      ['amount.currency', forecast?.amount?.currency],
+      ['amount.stringValue', forecast?.amount?.stringValue],
+      ['date', forecast?.date],
+      ['parent.id', forecast?.parent?.id]
+    ].filter(([, value]) => typeof value !== 'string' || value === '').map(([field]) => field);
+    if (missing.length > 0) problems.push(`Forecast ${i + 1} is missing ${missing.join(', ')}`);
+  });
+  return problems;
+}
+
+export function batchRows<T>(rows: T[], size: number): T[][] {
+  const batchSize = size > 0 ? Math.floor(size) : DEFAULT_BATCH_SIZE;
+  const batches: T[][] = [];
+  for (let start = 0; start < rows.length; start += batchSize) batches.push(rows.slice(start, start + batchSize));
+  return batches;
+}
+
+export async function fetchAtlarTarget(): Promise<AtlarTarget> {
+  const response = await fetch('/api/atlar/forecasts');
+  if (!response.ok) throw new Error(`Could not read the Atlar export settings (HTTP ${response.status})`);
+  return response.json();
+}
+
+// Send the rows batch by batch through the server route, reporting progress after every change.
+// A failed batch doesn't stop the others; its idempotency key makes sending it again safe.
+export async function sendForecastBatches(
+  rows: TransformedRow[],
+  batchSize: number,
+  onProgress: (results: BatchResult[]) => void,
+  exportKey: string = ''
+): Promise<BatchResult[]> {
+  const batches = batchRows(rows, batchSize);
+  const results: BatchResult[] = batches.map((batch, index) => ({
+    index,
+    rows: batch.length,
+    status: 'pending',
+    attempts: 0,
+    httpStatus: null
+  }));
+  const update = (index: number, changes: Partial<BatchResult>) => {
+    results[index] = { ...results[index], ...changes };
+    onProgress(results.slice());
+  };
+  onProgress(results.slice());
+
+  for (let index = 0; index < batches.length; index++) {
+    update(index, { status: 'sending' });
+    try {
+      const response = await fetch('/api/atlar/forecasts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [EXPORT_KEY_HEADER]: exportKey },
+        body: JSON.stringify({ forecasts: batches[index].map(toForecastPayload) })
+      });
+      const reply = await response.json();
+      if (!response.ok && !reply.idempotencyKey) throw new Error(reply.error || `HTTP ${response.status}`);
+      const sent = reply as SendBatchResponse;
+      update(index, {
+        status: sent.ok ? 'sent' : 'failed',
+        attempts: sent.attempts,
+        httpStatus: sent.status,
+        idempotencyKey: sent.idempotencyKey,
+        error: sent.error
+      });
+    } catch (err) {
+      update(index, { status: 'failed', error: err instanceof Error ? err.message : 'Failed to send the batch' });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,61 @@
+import { ForecastPayload, validateForecasts } from './atlarApi';
+
+// Server-only stand-in for the Atlar forecasts endpoint. Accepted batches are kept in memory
+// until the server restarts. ATLAR_MOCK_FAILURE_RATE (0-1) makes that share of requests fail
+// with a 503 to exercise the retries.
+
+export interface RecordedBatch {
+  id: string;
+  receivedAt: string;
+  idempotencyKey: string | null;
+  forecasts: ForecastPayload[];
+}
+
+export interface MockReply {
+  status: number;
+  body: { [key: string]: unknown };
+  headers?: { [name: string]: string };
+}
+
+// Kept on globalThis so the API route and the mock's own route share one record
+const store = globalThis as typeof globalThis & { atlarMockBatches?: RecordedBatch[] };
+const recorded: RecordedBatch[] = store.atlarMockBatches ?? (store.atlarMockBatches = []);
+
+// Only on development servers unless ATLAR_MOCK_ENABLED=true: the mock's routes expose and
+// clear what was sent, which a production deployment shouldn't offer
+export function mockEnabled(): boolean {
+  return process.env.ATLAR_MOCK_ENABLED === 'true' || process.env.NODE_ENV !== 'production';
+}
+
+export function recordedMockBatches(): RecordedBatch[] {
+  return recorded;
+}
+
+export function clearMockBatches(): void {
+  recorded.length = 0;
+}
+
+export function receiveMockBatch(forecasts: unknown, idempotencyKey: string | null): MockReply {
+  const failureRate = parseFloat(process.env.ATLAR_MOCK_FAILURE_RATE || '');
+  if (failureRate > 0 && Math.random() < failureRate) {
+    return { status: 503, body: { message: 'Simulated outage' }, headers: { 'Retry-After': '1' } };
+  }
+
+  const problems = validateForecasts(forecasts);
+  if (problems.length > 0) return { status: 400, body: { message: problems.join('; ') } };
+
+  // A key seen before replays the original batch instead of recording it twice
+  const existing = idempotencyKey ? recorded.find(batch => batch.idempotencyKey === idempotencyKey) : undefined;
+  if (existing) {
+    return { status: 200, body: { id: existing.id, forecasts: existing.forecasts.length }, headers: { 'Idempotent-Replayed': 'true' } };
+  }
+
+  const batch: RecordedBatch = {
+    id: `mock-${recorded.length + 1}`,
+    receivedAt: new Date().toISOString(),
+    idempotencyKey,
+    forecasts: forecasts as ForecastPayload[]
+  };
+  recorded.push(batch);
+  return { status: 201, body: { id: batch.id, forecasts: batch.forecasts.length } };
+}
@@ -0,0 +1,129 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { AtlarTarget, EXPORT_KEY_HEADER, ForecastPayload, SendBatchResponse } from './atlarApi';
+import { mockEnabled, receiveMockBatch } from './atlarMock';
+
+// Server-only: reads the Atlar credentials from the environment and talks to the API
+
+export const FORECASTS_PATH = '/v1/forecasts';
+export const MOCK_BASE_PATH = '/api/atlar-mock';
+
+export interface AtlarConfig extends AtlarTarget {
+  token: string | null;
+  maxAttempts: number;
+}
+
+// ATLAR_API_BASE_URL and ATLAR_API_TOKEN select the live API; without a base URL batches are
+// handed to the bundled mock in-process (where it is enabled), so the whole flow can be tried offline
+export function atlarConfig(): AtlarConfig {
+  const baseUrl = (process.env.ATLAR_API_BASE_URL || '').trim().replace(/\/+$/, '');
+  const attempts = parseInt(process.env.ATLAR_API_MAX_ATTEMPTS || '', 10);
+  const maxAttempts = attempts > 0 ? attempts : 3;
+  const keyRequired = exportKey() !== '';
+  if (!baseUrl && !mockEnabled()) return { mode: 'none', baseUrl: '', keyRequired, token: null, maxAttempts };
+  if (!baseUrl) return { mode: 'mock', baseUrl: MOCK_BASE_PATH, keyRequired, token: null, maxAttempts };
+  return { mode: 'live', baseUrl, keyRequired, token: (process.env.ATLAR_API_TOKEN || '').trim() || null, maxAttempts };
+}
+
+function exportKey(): string {
+  return (process.env.ATLAR_EXPORT_KEY || '').trim();
+}
+
+// The export route writes to Atlar with the server's token, so it only takes batches posted from
+// this app's own pages and, when ATLAR_EXPORT_KEY is set, carrying that key. Returns why a
+// request is refused, or null.
+export function refuseExport(request: Request): string | null {
+  const origin = request.headers.get('Origin');
+  const host = request.headers.get('X-Forwarded-Host') || request.headers.get('Host');
+  if (request.headers.get('Sec-Fetch-Site') === 'cross-site' || (origin && (!host || !sameHost(origin, host)))) {
+    return 'Batches can only be sent from this app.';
+  }
+  const key = exportKey();
+  if (!key) return null;
+  const given = Buffer.from(request.headers.get(EXPORT_KEY_HEADER) || '');
+  const expected = Buffer.from(key);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? null : 'Missing or wrong export key.';
+}
+
+function sameHost(origin: string, host: string): boolean {
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// Same batch, same key: a retry or a second click can't create the forecasts twice
+export function idempotencyKey(forecasts: ForecastPayload[]): string {
+  return 'forecast-' + createHash('sha256').update(JSON.stringify(forecasts)).digest('hex');
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits, timeouts and server errors are worth another try; other 4xx replies are final
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Retry-After in seconds when the API sends it, else exponential backoff from half a second
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (seconds >= 0) return Math.min(seconds, 30) * 1000;
+  return 500 * Math.pow(2, attempt - 1);
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    if (body?.message || body?.error) return String(body.message || body.error);
+  } catch {
+    // not JSON; fall through to the raw text
+  }
+  return text.slice(0, 200) || `HTTP ${response.status}`;
+}
+
+// Outcome of one attempt: the HTTP status (null when unreachable), the error text and Retry-After
+interface Delivery {
+  status: number | null;
+  error: string;
+  retryAfter: string | null;
+}
+
+async function deliver(forecasts: ForecastPayload[], key: string, config: AtlarConfig): Promise<Delivery> {
+  if (config.mode === 'mock') {
+    const reply = receiveMockBatch(forecasts, key);
+    const ok = reply.status >= 200 && reply.status < 300;
+    return { status: reply.status, error: ok ? '' : String(reply.body.message ?? ''), retryAfter: reply.headers?.['Retry-After'] ?? null };
+  }
+
+  const headers: { [name: string]: string } = { 'Content-Type': 'application/json', 'Idempotency-Key': key };
+  if (config.token) headers['Authorization'] = `Bearer ${config.token}`;
+  try {
+    const response = await fetch(config.baseUrl + FORECASTS_PATH, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ forecasts }),
+      cache: 'no-store'
+    });
+    if (response.ok) return { status: response.status, error: '', retryAfter: null };
+    return { status: response.status, error: await errorMessage(response), retryAfter: response.headers.get('Retry-After') };
+  } catch (err) {
+    return { status: null, error: err instanceof Error ? err.message : 'Could not reach the Atlar API', retryAfter: null };
+  }
+}
+
+export async function postForecasts(forecasts: ForecastPayload[], config: AtlarConfig): Promise<SendBatchResponse> {
+  if (config.mode === 'none') throw new Error('ATLAR_API_BASE_URL is not set on the server.');
+  if (config.mode === 'live' && !config.token) throw new Error('ATLAR_API_TOKEN is not set on the server.');
+
+  const key = idempotencyKey(forecasts);
+  let last: Delivery = { status: null, error: '', retryAfter: null };
+  for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+    last = await deliver(forecasts, key, config);
+    const { status, error } = last;
+    if (status !== null && status >= 200 && status < 300) return { ok: true, status, attempts: attempt, idempotencyKey: key };
+    if (status !== null && !isRetryable(status)) return { ok: false, status, attempts: attempt, idempotencyKey: key, error };
+    if (attempt < config.maxAttempts) await sleep(retryDelay(attempt, last.retryAfter));
+  }
+  return { ok: false, status: last.status, attempts: config.maxAttempts, idempotencyKey: key, error: last.error };
+}
@@ -0,0 +1,59 @@
+// Active ISO 4217 currency codes grouped by their number of minor units (decimals)
+const CODES_BY_MINOR_UNITS: { [minorUnits: number]: string } = {
+  0: 'BIF CLP DJF GNF ISK JPY KMF KRW PYG RWF UGX UYI VND VUV XAF XOF XPF',
+  2: 'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BMD BND BOB BOV BRL BSD BTN BWP BYN BZD ' +
+    'CAD CDF CHE CHF CHW CNY COP COU CRC CUC CUP CVE CZK DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL ' +
+    'GHS GIP GMD GTQ GYD HKD HNL HTG HUF IDR ILS INR IRR JMD KES KGS KHR KPW KYD KZT LAK LBP LKR LRD ' +
+    'LSL MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD PAB PEN ' +
+    'PGK PHP PKR PLN QAR RON RSD RUB SAR SBD SCR SDG SEK SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL ' +
+    'THB TJS TMT TOP TRY TTD TWD TZS UAH USD USN UYU UZS VED VES WST XCD XCG YER ZAR ZMW ZWG ZWL',
+  3: 'BHD IQD JOD KWD LYD OMR TND',
+  4: 'CLF UYW'
+};
+
+const MINOR_UNITS: { [code: string]: number } = {};
+Object.keys(CODES_BY_MINOR_UNITS).forEach(units => {
+  CODES_BY_MINOR_UNITS[Number(units)].split(' ').forEach(code => {
+    MINOR_UNITS[code] = Number(units);
+  });
+});
+
+// 'halfUp' rounds halves away from zero; 'halfEven' (banker's rounding) rounds them to the even neighbour
+export type RoundingMode = 'halfUp' | 'halfEven';
+
+export function isIsoCurrency(code: string): boolean {
+  return MINOR_UNITS.hasOwnProperty(code.trim().toUpperCase());
+}
+
+// Decimals for a currency; unknown codes fall back to 2
+export function minorUnits(code: string): number {
+  const units = MINOR_UNITS[code.trim().toUpperCase()];
+  return units === undefined ? 2 : units;
+}
+
+// Amount as a whole number of minor units (cents, öre, fils). Float artifacts such as
+// 1200.0000000002 are cleared before rounding so they can't tip a value over a half.
+export function toMinorUnits(amount: number, currency: string, rounding: RoundingMode = 'halfUp'): number {
+  const scaled = parseFloat((amount * Math.pow(10, minorUnits(currency))).toFixed(6));
+  const magnitude = Math.abs(scaled);
+  const floor = Math.floor(magnitude);
+  const fraction = magnitude - floor;
+  let rounded: number;
+  if (Math.abs(fraction - 0.5) < 1e-9) {
+    rounded = rounding === 'halfEven' && floor % 2 === 0 ? floor : floor + 1;
+  } else {
+    rounded = Math.round(magnitude);
+  }
+  return scaled < 0 ? -rounded : rounded;
+}
+
+export function fromMinorUnits(units: number, currency: string): number {
+  return units / Math.pow(10, minorUnits(currency));
+}
+
+// amount.stringValue with the currency's number of decimals
+export function formatAmount(amount: number, currency: string, rounding: RoundingMode = 'halfUp'): string {
+  const digits = minorUnits(currency);
+  const units = toMinorUnits(amount, currency, rounding);
+  return (units / Math.pow(10, digits)).toFixed(digits);
+}
@@ -0,0 +1,68 @@
+// A known Atlar entity; files and forms can refer to it by name, short code or UUID
+export interface EntityRecord {
+  name: string;
+  code: string;
+  id: string;
+  // Used when a sheet or file row gives no currency
+  currency?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value.trim());
+}
+
+// Match on UUID, then code, then name, ignoring case
+export function findEntity(value: string, directory: EntityRecord[]): EntityRecord | null {
+  const key = value.trim().toLowerCase();
+  if (!key) return null;
+  return directory.find(entity => entity.id.toLowerCase() === key)
+    ?? directory.find(entity => entity.code.trim().toLowerCase() === key)
+    ?? directory.find(entity => entity.name.trim().toLowerCase() === key)
+    ?? null;
+}
+
+// Problems that would make the directory ambiguous or unusable, one message per entry
+export function validateEntityDirectory(directory: EntityRecord[]): string[] {
+  const problems: string[] = [];
+  const seen = new Map<string, string>();
+  directory.forEach((entity, i) => {
+    const label = entity.name.trim() || `Entry ${i + 1}`;
+    if (!isUuid(entity.id)) problems.push(`${label}: "${entity.id}" is not a valid UUID`);
+    [entity.name, entity.code].forEach(alias => {
+      const key = alias.trim().toLowerCase();
+      if (!key) return;
+      const other = seen.get(key);
+      if (other !== undefined && other !== entity.id) problems.push(`${label}: "${alias}" is also used by another entity`);
+      seen.set(key, entity.id);
+    });
+  });
+  return problems;
+}
+
+// Read an exported directory: an array of entities or { "entities": [...] }
+export function readEntityDirectory(json: string): EntityRecord[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The entity directory is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : data?.entities;
+  if (!Array.isArray(list)) throw new Error('The entity directory must be a list of entities.');
+
+  const directory: EntityRecord[] = list.map((item: any, i: number) => {
+    if (!item || typeof item !== 'object') throw new Error(`Entity ${i + 1} is not an object.`);
+    const text = (value: any) => (value == null ? '' : String(value).trim());
+    const currency = text(item.currency).toUpperCase();
+    return { name: text(item.name), code: text(item.code), id: text(item.id ?? item.uuid), currency: currency || undefined };
+  });
+  const problems = validateEntityDirectory(directory);
+  if (problems.length > 0) throw new Error(`Invalid entity directory: ${problems.slice(0, 3).join('; ')}`);
+  return directory;
+}
+
+export function entityDirectoryToJson(directory: EntityRecord[]): string {
+  return JSON.stringify({ entities: directory }, null, 2);
+}
@@ -0,0 +1,162 @@
+import * as XLSX from 'xlsx';
+import { CsvOutputOptions, TransformedRow, generateCSV } from './parsers';
+import { EntityRecord, findEntity } from './entities';
+import { formatAmount, fromMinorUnits, toMinorUnits } from './currencies';
+
+// 'entity' writes one file per parent.id; 'entityCurrency' one per parent.id and currency
+export type SplitBy = 'none' | 'entity' | 'entityCurrency';
+
+export interface SplitOptions {
+  by: SplitBy;
+  // Rows per file for Atlar's import limit; null keeps each group in one file
+  maxRows: number | null;
+}
+
+export interface ExportFile {
+  name: string;
+  rows: TransformedRow[];
+  parentId: string | null; // null when rows of several entities share the file
+  entity: string;
+  currency: string | null;
+  from: string;
+  to: string;
+  part: number | null;
+}
+
+export interface ManifestEntry {
+  file: string;
+  parentId: string | null;
+  entity: string;
+  currency: string | null;
+  from: string;
+  to: string;
+  rows: number;
+  totals: { [currency: string]: string };
+}
+
+// YYYYMMDD_HHMM in local time, as in Atlar's own export names
+export function exportTimestamp(date: Date): string {
+  const pad = (value: number) => (value < 10 ? '0' : '') + value;
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}_${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
+
+function fileSafe(value: string): string {
+  return value.trim().replace(/[^A-Za-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'entity';
+}
+
+// Directory code, else name, else the first block of the UUID
+function entityLabel(parentId: string, directory: EntityRecord[]): string {
+  const entity = findEntity(parentId, directory);
+  if (entity) return fileSafe(entity.code || entity.name);
+  return fileSafe(parentId.split('-')[0]);
+}
+
+function dateRange(rows: TransformedRow[]): { from: string; to: string } {
+  const dates = rows.map(row => String(row['date'])).sort();
+  return { from: dates[0] ?? '', to: dates[dates.length - 1] ?? '' };
+}
+
+// atlar_<entity>[_<currency>]_<from>_<to>_<timestamp>[_part<n>]
+function exportFileName(file: Omit<ExportFile, 'name'>, timestamp: string): string {
+  const parts = ['atlar', file.entity];
+  if (file.currency) parts.push(file.currency);
+  parts.push(file.from.replace(/-/g, ''), file.to.replace(/-/g, ''), timestamp);
+  if (file.part !== null) parts.push(`part${file.part}`);
+  return parts.join('_');
+}
+
+// Split the output into files by entity / currency, then into chunks of at most maxRows.
+// Chunked groups are sorted by date so each file covers one stretch of the forecast.
+export function planExport(rows: TransformedRow[], options: SplitOptions, directory: EntityRecord[] = [], now: Date = new Date()): ExportFile[] {
+  const groups = new Map<string, { parentId: string | null; currency: string | null; rows: TransformedRow[] }>();
+  rows.forEach(row => {
+    const parentId = options.by === 'none' ? null : row['parent.id'];
+    const currency = options.by === 'entityCurrency' ? row['amount.currency'] : null;
+    const key = `${parentId}|${currency}`;
+    const group = groups.get(key);
+    if (group) group.rows.push(row);
+    else groups.set(key, { parentId, currency, rows: [row] });
+  });
+
+  const timestamp = exportTimestamp(now);
+  const files: ExportFile[] = [];
+  groups.forEach(group => {
+    const parentIds = Array.from(new Set(group.rows.map(row => row['parent.id'])));
+    const entityId = group.parentId ?? (parentIds.length === 1 ? parentIds[0] : null);
+    const entity = entityId ? entityLabel(entityId, directory) : 'forecast';
+
+    const maxRows = options.maxRows && options.maxRows > 0 ? Math.floor(options.maxRows) : null;
+    const chunks: TransformedRow[][] = [];
+    if (maxRows === null || group.rows.length <= maxRows) {
+      chunks.push(group.rows);
+    } else {
+      // Array.prototype.sort is stable in every engine Next.js targets
+      const sorted = group.rows.slice().sort((a, b) => (a['date'] < b['date'] ? -1 : a['date'] > b['date'] ? 1 : 0));
+      for (let start = 0; start < sorted.length; start += maxRows) chunks.push(sorted.slice(start, start + maxRows));
+    }
+
+    chunks.forEach((chunk, i) => {
+      const file = {
+        rows: chunk,
+        parentId: entityId,
+        entity,
+        currency: group.currency,
+        ...dateRange(chunk),
+        part: chunks.length > 1 ? i + 1 : null
+      };
+      files.push({ ...file, name: exportFileName(file, timestamp) });
+    });
+  });
+
+  // Two entities can share a label (same name, same UUID prefix); keep file names unique
+  const used = new Map<string, number>();
+  files.forEach(file => {
+    const count = (used.get(file.name) ?? 0) + 1;
+    used.set(file.name, count);
+    if (count > 1) file.name = `${file.name}_${count}`;
+  });
+  return files;
+}
+
+// Amount totals per currency, summed in minor units
+function fileTotals(rows: TransformedRow[]): { [currency: string]: string } {
+  const units = new Map<string, number>();
+  rows.forEach(row => {
+    const currency = row['amount.currency'];
+    units.set(currency, (units.get(currency) ?? 0) + toMinorUnits(parseFloat(row['amount.stringValue']) || 0, currency));
+  });
+  const totals: { [currency: string]: string } = {};
+  units.forEach((total, currency) => {
+    totals[currency] = formatAmount(fromMinorUnits(total, currency), currency);
+  });
+  return totals;
+}
+
+export function exportManifest(files: ExportFile[], extension: string): ManifestEntry[] {
+  return files.map(file => ({
+    file: `${file.name}.${extension}`,
+    parentId: file.parentId,
+    entity: file.entity,
+    currency: file.currency,
+    from: file.from,
+    to: file.to,
+    rows: file.rows.length,
+    totals: fileTotals(file.rows)
+  }));
+}
+
+// One CSV per planned file plus manifest.json, zipped with the ZIP writer bundled in SheetJS
+export function generateExportZip(files: ExportFile[], csvOptions: Partial<CsvOutputOptions> = {}, now: Date = new Date()): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const zip = XLSX.CFB.utils.cfb_new();
+  files.forEach(file => {
+    XLSX.CFB.utils.cfb_add(zip, `${file.name}.csv`, encoder.encode(generateCSV(file.rows, csvOptions)), { mt: now });
+  });
+  const manifest = {
+    createdAt: now.toISOString(),
+    files: exportManifest(files, 'csv')
+  };
+  XLSX.CFB.utils.cfb_add(zip, 'manifest.json', encoder.encode(JSON.stringify(manifest, null, 2)), { mt: now });
+  const bytes: Uint8Array = XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true });
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
@@ -0,0 +1,131 @@
+import { DateOrder, TransformedRow, detectDateOrder, headerCellToText, parseAmount, parseDate } from './parsers';
+import { RoundingMode, formatAmount, isIsoCurrency } from './currencies';
+
+// Reporting currency: the uploaded rate table and the conversion step of the transform
+
+export interface FxRate {
+  // 1 unit of `from` is `rate` units of `to`
+  from: string;
+  to: string;
+  rate: number;
+  // Inclusive ISO dates; open-ended when not set
+  validFrom?: string;
+  validTo?: string;
+}
+
+export interface FxConversion {
+  rates: FxRate[];
+  target: string;
+}
+
+const FX_TABLE_COLUMNS: { [key: string]: string[] } = {
+  pair: ['pair', 'currency pair'],
+  from: ['from', 'base', 'from currency', 'base currency'],
+  to: ['to', 'quote', 'to currency', 'quote currency'],
+  rate: ['rate', 'fx rate', 'exchange rate'],
+  validFrom: ['valid from', 'effective from', 'from date', 'start date'],
+  validTo: ['valid to', 'effective to', 'to date', 'end date']
+};
+
+// Read an uploaded rate table: a currency pair ("EUR/SEK", "EURSEK") or From and To columns,
+// a Rate column, and optional Valid From / Valid To dates. Slash dates are read in one order for
+// both date columns: detected from the values, else dateOrder.
+export function readFxRateTable(rows: any[][], dateOrder: DateOrder = 'DMY'): FxRate[] {
+  const headers = (rows[0] ?? []).map(headerCellToText);
+  const column = (key: string) => headers.findIndex(h => FX_TABLE_COLUMNS[key].includes(h.trim().toLowerCase()));
+  const pairIndex = column('pair');
+  const fromIndex = column('from');
+  const toIndex = column('to');
+  const rateIndex = column('rate');
+  const validFromIndex = column('validFrom');
+  const validToIndex = column('validTo');
+  if (rateIndex === -1 || (pairIndex === -1 && (fromIndex === -1 || toIndex === -1))) {
+    throw new Error('The rate table needs a "Pair" column (or "From" and "To" columns) and a "Rate" column.');
+  }
+  // Excel date cells arrive as serial numbers
+  const dateText = (row: any[], index: number) => (index === -1 || row[index] == null ? '' : headerCellToText(row[index]).trim());
+  const dateTexts = rows.slice(1).reduce<string[]>((texts, row) => texts.concat(dateText(row, validFromIndex), dateText(row, validToIndex)), []);
+  const order = detectDateOrder(dateTexts, dateOrder)?.order ?? dateOrder;
+
+  const rates: FxRate[] = [];
+  rows.slice(1).forEach((row, i) => {
+    const rowNumber = i + 2;
+    const cell = (index: number) => (index === -1 || row[index] == null ? '' : String(row[index]).trim());
+    if (row.every(value => value == null || String(value).trim() === '')) return;
+
+    let from = cell(fromIndex).toUpperCase();
+    let to = cell(toIndex).toUpperCase();
+    if (pairIndex !== -1 && cell(pairIndex)) {
+      const pair = cell(pairIndex).toUpperCase().match(/^([A-Z]{3})\s*[\/\-]?\s*([A-Z]{3})$/);
+      if (!pair) throw new Error(`Rate table row ${rowNumber}: "${cell(pairIndex)}" is not a currency pair like EUR/SEK.`);
+      from = pair[1];
+      to = pair[2];
+    }
+    if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to)) {
+      throw new Error(`Rate table row ${rowNumber}: currencies must be 3-letter codes.`);
+    }
+    const rate = typeof row[rateIndex] === 'number' ? row[rateIndex] : parseAmount(cell(rateIndex));
+    if (rate === null || !(rate > 0)) {
+      throw new Error(`Rate table row ${rowNumber}: "${cell(rateIndex)}" is not a valid rate.`);
+    }
+    const readDate = (index: number): string | undefined => {
+      if (!cell(index)) return undefined;
+      const date = parseDate(dateText(row, index), undefined, order);
+      if (!date) throw new Error(`Rate table row ${rowNumber}: "${cell(index)}" is not a valid date.`);
+      return date;
+    };
+    rates.push({ from, to, rate, validFrom: readDate(validFromIndex), validTo: readDate(validToIndex) });
+  });
+  return rates;
+}
+
+// Rate from one currency into another on a date. A direct quote wins over an inverted one, and
+// among quotes valid on the date the one that took effect latest wins.
+export function findFxRate(rates: FxRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+  const validOn = (rate: FxRate) =>
+    (!rate.validFrom || rate.validFrom <= date) && (!rate.validTo || date <= rate.validTo);
+  const latest = (candidates: FxRate[]) =>
+    candidates.filter(validOn).sort((a, b) => (b.validFrom ?? '').localeCompare(a.validFrom ?? ''))[0];
+  const direct = latest(rates.filter(rate => rate.from === from && rate.to === to));
+  if (direct) return direct.rate;
+  const inverse = latest(rates.filter(rate => rate.from === to && rate.to === from));
+  return inverse ? 1 / inverse.rate : null;
+}
+
+// Convert amounts into the target currency at the rate valid on each row's date, keeping the
+// original currency, amount and rate as metadata. Missing rates fail the whole transform.
+export function convertCurrency<T extends { row: TransformedRow }>(rows: T[], fx?: FxConversion, rounding?: RoundingMode): T[] {
+  const target = fx?.target.trim().toUpperCase();
+  if (!fx || !target) return rows;
+  if (!isIsoCurrency(target)) throw new Error(`"${target}" is not an ISO 4217 currency code.`);
+
+  const missing = new Set<string>();
+  const converted = rows.map(sourced => {
+    const { row } = sourced;
+    const currency = row['amount.currency'];
+    const rate = findFxRate(fx.rates, currency, target, row['date']);
+    if (rate === null) {
+      missing.add(`${currency}/${target} on ${row['date']}`);
+      return sourced;
+    }
+    const amount = formatAmount(parseFloat(row['amount.stringValue']) * rate, target, rounding);
+    return {
+      ...sourced,
+      row: {
+        ...row,
+        'amount.currency': target,
+        'amount.stringValue': amount,
+        'metadata.originalCurrency': currency,
+        'metadata.originalAmount': row['amount.stringValue'],
+        'metadata.fxRate': String(rate)
+      }
+    };
+  });
+
+  if (missing.size > 0) {
+    const list = Array.from(missing);
+    throw new Error(`No FX rate for ${list.slice(0, 5).join(', ')}${list.length > 5 ? ` and ${list.length - 5} more` : ''}.`);
+  }
+  return converted;
+}
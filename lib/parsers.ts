@@ -1,13 +1,37 @@
 import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
+import { RoundingMode, isIsoCurrency, toMinorUnits, fromMinorUnits, formatAmount } from './currencies';
+import { EntityRecord, findEntity, isUuid, validateEntityDirectory } from './entities';
+import { FxConversion, convertCurrency } from './fx';
 
 export interface ParsedData {
   headers: string[];
   data: string[][];
   categoryIndex: number;
+  // Column whose text replaces the category leaf as description; -1 when not mapped
+  descriptionIndex: number;
+  // Column saying whether a row is an inflow or an outflow; -1 when there is none
+  directionIndex: number;
+  // Extra columns passed through as metadata.<name> output columns
+  metadataColumns: MetadataColumn[];
   dateIndices: number[];
-  // Maps column index to array of expanded dates (for week-range headers)
+  // Maps column index to array of expanded dates (for week-range and period headers)
   expandedDates: Map<number, string[]>;
+  // Maps column index to its resolved ISO date (for single-date headers)
+  dates: Map<number, string>;
+  // Order applied to DD/MM/YYYY or MM/DD/YYYY headers; null when the file has none
+  dateOrder: DateOrderResult | null;
+  decimalSeparator: DecimalSeparatorResult;
+  // Amount cells that could not be read (skipped) or were read under an assumed convention
+  issues: CellIssue[];
+  // Row the headers were read from; rows above it (titles, notes) are skipped
+  headerRow: HeaderRowResult;
+  // 1-based source row of each data row (the first contributing row for long layouts)
+  rowNumbers: number[];
+  // Parent and total rows compared against their children; matching ones are left out of the transform
+  subtotals: SubtotalCheck[];
+  // Source layout; long files are pivoted into the wide grid above
+  layout: InputLayout;
 }
 
 export interface ParsedDataMulti {
@@ -16,15 +40,143 @@ export interface ParsedDataMulti {
   entityIdIndex: number;
   currencyIndex: number;
   categoryIndex: number;
+  descriptionIndex: number;
+  directionIndex: number;
+  metadataColumns: MetadataColumn[];
   dateIndices: number[];
+  expandedDates: Map<number, string[]>;
+  dates: Map<number, string>;
+  dateOrder: DateOrderResult | null;
+  decimalSeparator: DecimalSeparatorResult;
+  issues: CellIssue[];
+  headerRow: HeaderRowResult;
+  rowNumbers: number[];
+  subtotals: SubtotalCheck[];
+  layout: InputLayout;
+}
+
+export interface SubtotalCheck {
+  rowIndex: number; // index into data
+  rowNumber: number;
+  category: string;
+  // Categories of the rows summed into this one
+  children: string[];
+  // true when the row equals the sum of its children in every date column
+  excluded: boolean;
+  mismatches: { header: string; value: number; childrenSum: number }[];
+}
+
+export interface HeaderRowResult {
+  index: number; // 0-based row in the source sheet
+  // false when set manually or when no row qualified and the first row was used
+  detected: boolean;
+}
+
+export type ColumnRole = 'entityId' | 'currency' | 'category' | 'description' | 'direction' | 'metadata' | 'ignore';
+
+export interface MetadataColumn {
+  index: number;
+  // Output column, e.g. "metadata.costCenter" for a "Cost Center" header
+  key: MetadataKey;
+}
+
+export type MetadataKey = `metadata.${string}`;
+
+// Source header text -> role; mapped columns are never read as date columns
+export type ColumnMapping = { [header: string]: ColumnRole };
+
+// 'wide': dates are column headers right of Category; 'long': one row per date/category/amount
+export type InputLayout = 'wide' | 'long';
+
+export type DateOrder = 'DMY' | 'MDY';
+
+export interface DateOrderResult {
+  order: DateOrder;
+  // false when every slash-date header was ambiguous and the configured fallback was used
+  detected: boolean;
+}
+
+export type DecimalSeparator = '.' | ',';
+
+export interface DecimalSeparatorResult {
+  separator: DecimalSeparator;
+  // 'default' means no cell decided it, so '.' was assumed
+  source: 'detected' | 'default' | 'setting';
+}
+
+export interface CellIssue {
+  rowNumber: number; // 1-based row in the source sheet
+  columnIndex: number;
+  header: string;
+  value: string;
+  message: string;
+  // 'error' cells are skipped; 'warning' cells are used with the assumed convention
+  severity: 'error' | 'warning';
+}
+
+export interface ParseOptions {
+  // Year for headers without one ("Oct 29", "Dec 29 - Jan 4"); defaults to the current year
+  baseYear?: number;
+  // Order for slash-date headers when no value above 12 decides it; defaults to DMY
+  dateOrder?: DateOrder;
+  // Decimal separator for amounts; detected from the file when not set
+  decimalSeparator?: DecimalSeparator;
+  // Input layout; detected from the header row when not set
+  layout?: InputLayout;
+  // 0-based header row; detected by scanning the top of the sheet when not set
+  headerRow?: number;
+  // Leave out parent/total rows that equal the sum of their children; defaults to true
+  excludeSubtotals?: boolean;
+  // Roles for columns whose headers don't match the built-in names
+  columnMapping?: ColumnMapping;
 }
 
 export interface TransformOptions {
   currency: string;
   parentId: string;
-  periodicity?: string; // Optional periodicity field
+  // Resample output rows to this periodicity; rows follow the input columns when not set
+  periodicity?: Periodicity;
+  // ISO weekday (1 = Monday ... 7 = Sunday) that weekly buckets start on and are dated; defaults to Monday
+  weekAnchor?: number;
+  // Day of the month that monthly buckets are dated; defaults to the first
+  monthAnchor?: MonthAnchor;
+  // How an amount under a week range or period header is booked; defaults to the last day,
+  // or an even split when resampling
+  allocation?: Allocation;
+  // ISO weekday used by the 'weekday' allocation; defaults to Monday
+  allocationWeekday?: number;
+  // Source categories to Atlar categories; when empty the category leaf is used as-is
+  categoryMapping?: CategoryMappingEntry[];
+  // What to do with rows sharing entity, currency, date and description; defaults to 'sum'
+  duplicates?: DuplicatePolicy;
+  // Convert every row into one reporting currency
+  fx?: FxConversion;
+  // Categories whose amounts are negated as outflows; a Direction column wins over these
+  signRules?: SignRule[];
+  // Negate every amount, after the rules and the Direction column
+  flipSigns?: boolean;
+  // How amounts are rounded to the currency's minor units; defaults to half up
+  rounding?: RoundingMode;
+  // Entities that names and codes in the form or file resolve to
+  entities?: EntityRecord[];
 }
 
+export type Direction = 'inflow' | 'outflow';
+
+export interface SignRule {
+  // Category path, with * matching any text ("Ops>*"); case-insensitive, first matching rule wins
+  pattern: string;
+  direction: Direction;
+}
+
+export type Periodicity = 'Daily' | 'Weekly' | 'Monthly';
+export type MonthAnchor = 'first' | 'last';
+export type Allocation = 'first' | 'last' | 'weekday' | 'even' | 'businessDays';
+export type DuplicatePolicy = 'sum' | 'keepLast' | 'block';
+
+// The transform options that don't depend on the entity, shared with the multi-entity transform
+export type BookingOptions = Omit<TransformOptions, 'currency' | 'parentId'>;
+
 // Format YYYY-MM-DD without timezone side effects
 function formatIsoDate(year: number, monthZeroBased: number, day: number): string {
   const yyyy = String(year);
@@ -33,14 +185,56 @@ function formatIsoDate(year: number, monthZeroBased: number, day: number): strin
   return `${yyyy}-${mm}-${dd}`;
 }
 
+const MONTH_INDEX: { [key: string]: number } = {
+  'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
+  'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'okt': 9, 'nov': 10, 'dec': 11
+};
+
+function isValidCalendarDate(year: number, monthZeroBased: number, day: number): boolean {
+  const d = new Date(Date.UTC(year, monthZeroBased, day));
+  return d.getUTCFullYear() === year && d.getUTCMonth() === monthZeroBased && d.getUTCDate() === day;
+}
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 // Excel serial to ISO using UTC math (origin 1899-12-30)
 function excelSerialToIso(serial: number): string {
-  const MS_PER_DAY = 24 * 60 * 60 * 1000;
   const originUtcMs = Date.UTC(1899, 11, 30);
   const dateUtcMs = originUtcMs + serial * MS_PER_DAY;
   const d = new Date(dateUtcMs);
   return formatIsoDate(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
 }
+// Where a transformed row came from; kept beside the row so the output columns stay fixed
+export interface RowSource {
+  sheet: string;
+  rowNumber: number;
+}
+
+interface SourcedRow {
+  row: TransformedRow;
+  source: RowSource;
+}
+
+// Rows that collided on entity, currency, date and description, and how they were resolved
+export interface DuplicateGroup {
+  parentId: string;
+  currency: string;
+  date: string;
+  description: string;
+  // metadata.atlar.category; groups with the same description can differ only in it
+  category: string;
+  sources: (RowSource & { amount: string })[];
+  // Amount of the row that was kept; null when the export is blocked
+  result: string | null;
+}
+
+export interface TransformResult {
+  rows: TransformedRow[];
+  duplicates: DuplicateGroup[];
+  // True when duplicates were found and the policy is 'block'
+  blocked: boolean;
+}
+
 export interface TransformedRow {
   'amount.currency': string;
   'amount.stringValue': string;
@@ -49,12 +243,68 @@ export interface TransformedRow {
   'parent.type': string;
   'description': string;
   'metadata.atlar.category': string;
+  // Set on rows converted into a reporting currency, for audit
+  'metadata.originalCurrency'?: string;
+  'metadata.originalAmount'?: string;
+  'metadata.fxRate'?: string;
+  // Extra input columns picked in the column mapping
+  [metadata: MetadataKey]: string | undefined;
+}
+
+export interface RawSheet {
+  name: string;
+  rows: any[][];
+  // CSV files only: the source text, so the rows can be split again with another delimiter
+  csv?: { text: string; delimiter: CsvDelimiter; detected: boolean; encoding: EncodingResult };
 }
 
-export function parseFile(file: File): Promise<ParsedData> {
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface EncodingResult {
+  encoding: TextEncoding;
+  // 'bom' when a byte-order mark decided it, 'detected' when the bytes were inspected
+  source: 'bom' | 'detected';
+}
+
+export interface SheetParseResult<T> {
+  name: string;
+  parsed: T | null;
+  // Why the sheet could not be used (e.g. no Category header); shown greyed out in the picker
+  error?: string;
+}
+
+export interface CategoryMappingEntry {
+  // Category path ("Opex>Marketing>Ads") or leaf ("Ads"); a path match wins over a leaf match
+  source: string;
+  // Written to metadata.atlar.category
+  category: string;
+  // Replaces the description when set
+  description?: string;
+}
+
+export interface SheetAssignment {
+  included: boolean;
+  // Empty values fall back to the options from the configure step
+  parentId: string;
+  currency: string;
+}
+
+function isExcelFile(fileName: string): boolean {
+  return fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
+}
+
+// Delimited text: CSV plus Excel's "Unicode Text" (.txt) and tab-separated exports
+function isTextFile(fileName: string): boolean {
+  return fileName.endsWith('.csv') || fileName.endsWith('.txt') || fileName.endsWith('.tsv');
+}
+
+// Read every sheet of a workbook, or the single grid of a CSV file, as raw rows
+export function readFileSheets(file: File): Promise<RawSheet[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    
+
     reader.onload = (e) => {
       try {
         const data = e.target?.result;
@@ -63,18 +313,16 @@ export function parseFile(file: File): Promise<ParsedData> {
           return;
         }
 
-        let parsedData: ParsedData;
-
-        if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-          parsedData = parseExcel(data as ArrayBuffer);
-        } else if (file.name.endsWith('.csv')) {
-          parsedData = parseCSV(data as string);
+        const fileName = file.name.toLowerCase();
+        if (isExcelFile(fileName)) {
+          resolve(readExcelSheets(data as ArrayBuffer));
+        } else if (isTextFile(fileName)) {
+          const bytes = new Uint8Array(data as ArrayBuffer);
+          const encoding = detectEncoding(bytes);
+          resolve([readCSVSheet(file.name, decodeText(bytes, encoding.encoding), encoding)]);
         } else {
-          reject(new Error('Unsupported file format. Please use CSV or XLSX files.'));
-          return;
+          reject(new Error('Unsupported file format. Please use CSV, TXT or XLSX files.'));
         }
-
-        resolve(parsedData);
       } catch (error) {
         reject(error);
       }
@@ -82,127 +330,293 @@ export function parseFile(file: File): Promise<ParsedData> {
 
     reader.onerror = () => reject(new Error('Failed to read file'));
 
-    if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file, 'utf-8');
-    }
+    // Text files are read as bytes too, so their encoding can be detected before decoding
+    reader.readAsArrayBuffer(file);
   });
 }
 
-export function parseFileMulti(file: File): Promise<ParsedDataMulti> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) {
-          reject(new Error('Failed to read file'));
-          return;
-        }
-        let parsed: ParsedDataMulti;
-        if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-          parsed = parseExcelAsMulti(data as ArrayBuffer);
-        } else if (file.name.endsWith('.csv')) {
-          parsed = parseCSVMulti(data as string);
-        } else {
-          reject(new Error('Unsupported file format. Please use CSV or XLSX files.'));
-          return;
-        }
-        resolve(parsed);
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file, 'utf-8');
+// Share of zero bytes above which a BOM-less file is taken to be UTF-16
+const UTF16_ZERO_BYTE_RATIO = 0.3;
+
+// Detect the encoding from a byte-order mark, else from the bytes: UTF-16 text has a zero byte in
+// most character pairs, and anything that isn't valid UTF-8 is assumed to be Windows-1252
+export function detectEncoding(bytes: Uint8Array): EncodingResult {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', source: 'bom' };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', source: 'bom' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', source: 'bom' };
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++; else oddZeros++;
     }
-  });
+  }
+  const pairs = Math.max(1, Math.floor(sample.length / 2));
+  if (oddZeros / pairs > UTF16_ZERO_BYTE_RATIO && evenZeros < oddZeros / 4) return { encoding: 'utf-16le', source: 'detected' };
+  if (evenZeros / pairs > UTF16_ZERO_BYTE_RATIO && oddZeros < evenZeros / 4) return { encoding: 'utf-16be', source: 'detected' };
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', source: 'detected' };
+  } catch {
+    return { encoding: 'windows-1252', source: 'detected' };
+  }
 }
 
-function parseExcel(data: ArrayBuffer): ParsedData {
-  const workbook = XLSX.read(data, { type: 'array' });
-  const sheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[sheetName];
-  
-  // Use XLSX's built-in conversion but with raw values
-  const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-    header: 1, 
-    defval: '',
-    raw: true // This gets the raw Excel values instead of formatted strings
-  }) as any[][];
-  
-  return parseArrayData(jsonData);
+// Decode and drop the BOM so it can't stick to the first header
+function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
 }
 
-function parseExcelAsMulti(data: ArrayBuffer): ParsedDataMulti {
+function readExcelSheets(data: ArrayBuffer): RawSheet[] {
   const workbook = XLSX.read(data, { type: 'array' });
-  const sheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[sheetName];
-  const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-    header: 1,
-    defval: '',
-    raw: true
-  }) as any[][];
-  return parseArrayDataMulti(jsonData);
-}
-
-function parseCSV(data: string): ParsedData {
-  // Check if it's tab-separated by looking for tabs
-  const isTabSeparated = data.includes('\t') && !data.includes(',');
-  console.log('[parseCSV] Tab-separated:', isTabSeparated);
-  console.log('[parseCSV] First 200 chars:', data.substring(0, 200));
-  
-  const result = Papa.parse(data, {
+  return workbook.SheetNames.map(sheetName => ({
+    name: sheetName,
+    // Use XLSX's built-in conversion but with raw values instead of formatted strings
+    rows: XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+      header: 1,
+      defval: '',
+      raw: true
+    }) as any[][]
+  }));
+}
+
+function readCSVSheet(name: string, text: string, encoding: EncodingResult): RawSheet {
+  const detected = detectDelimiter(text);
+  console.log('[readCSVSheet] Detected encoding:', encoding.encoding, `(${encoding.source})`);
+  console.log('[readCSVSheet] Detected delimiter:', JSON.stringify(detected));
+  console.log('[readCSVSheet] First 200 chars:', text.substring(0, 200));
+  return {
+    name,
+    rows: readCSVRows(text, detected ?? ','),
+    csv: { text, delimiter: detected ?? ',', detected: detected !== null, encoding }
+  };
+}
+
+// Split a CSV sheet again with a delimiter chosen by the user; workbook sheets are returned as-is
+export function withDelimiter(sheet: RawSheet, delimiter: CsvDelimiter): RawSheet {
+  if (!sheet.csv || sheet.csv.delimiter === delimiter) return sheet;
+  return {
+    ...sheet,
+    rows: readCSVRows(sheet.csv.text, delimiter),
+    csv: { ...sheet.csv, delimiter, detected: false }
+  };
+}
+
+function readCSVRows(text: string, delimiter: CsvDelimiter): string[][] {
+  const result = Papa.parse(text, {
     header: false,
     skipEmptyLines: true,
-    delimiter: isTabSeparated ? '\t' : ','
+    delimiter
   });
-  
-  console.log('[parseCSV] Parsed rows:', result.data.length);
-  console.log('[parseCSV] First row:', result.data[0]);
-  
-  return parseArrayData(result.data as string[][]);
+
+  console.log('[readCSVRows] Parsed rows:', result.data.length);
+  return result.data as string[][];
 }
 
-function parseCSVMulti(data: string): ParsedDataMulti {
-  const isTabSeparated = data.includes('\t') && !data.includes(',');
-  const result = Papa.parse(data, {
-    header: false,
-    skipEmptyLines: true,
-    delimiter: isTabSeparated ? '\t' : ','
+// Candidates in order of preference when two split the sample equally well
+const DELIMITER_CANDIDATES: CsvDelimiter[] = ['\t', ';', '|', ','];
+const DELIMITER_SAMPLE_RECORDS = 30;
+
+// Pick the delimiter that splits the first records into the most consistent number of fields.
+// Delimiters inside quoted fields ("Rent, Stockholm") are not counted. Returns null for a single column.
+export function detectDelimiter(text: string): CsvDelimiter | null {
+  const counts: { [delimiter: string]: number[] } = {};
+  DELIMITER_CANDIDATES.forEach(d => { counts[d] = []; });
+  let current: { [delimiter: string]: number } = {};
+  let inQuotes = false;
+  let recordHasContent = false;
+
+  const endRecord = () => {
+    if (recordHasContent) {
+      DELIMITER_CANDIDATES.forEach(d => counts[d].push(current[d] ?? 0));
+    }
+    current = {};
+    recordHasContent = false;
+  };
+
+  for (let i = 0; i < text.length && counts[','].length < DELIMITER_SAMPLE_RECORDS; i++) {
+    const char = text[i];
+    if (char === '"') {
+      // An escaped quote ("") toggles twice, leaving the state unchanged
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      endRecord();
+      continue;
+    } else if (!inQuotes && DELIMITER_CANDIDATES.includes(char as CsvDelimiter)) {
+      current[char] = (current[char] ?? 0) + 1;
+    }
+    if (char.trim() !== '') recordHasContent = true;
+  }
+  endRecord();
+
+  let best: { delimiter: CsvDelimiter; consistency: number; fields: number } | null = null;
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const perRecord = counts[delimiter];
+    if (perRecord.length === 0) continue;
+    // Most common non-zero count and how many records share it
+    const frequency = new Map<number, number>();
+    perRecord.forEach(count => {
+      if (count > 0) frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    });
+    let fields = 0;
+    let records = 0;
+    frequency.forEach((n, count) => {
+      if (n > records || (n === records && count > fields)) {
+        fields = count;
+        records = n;
+      }
+    });
+    if (fields === 0) continue;
+    const consistency = records / perRecord.length;
+    if (!best || consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+      best = { delimiter, consistency, fields };
+    }
+  }
+  return best ? best.delimiter : null;
+}
+
+function parseEachSheet<T>(sheets: RawSheet[], parse: (rows: any[][]) => T): SheetParseResult<T>[] {
+  return sheets.map(sheet => {
+    try {
+      return { name: sheet.name, parsed: parse(sheet.rows) };
+    } catch (err) {
+      return {
+        name: sheet.name,
+        parsed: null,
+        error: err instanceof Error ? err.message : 'Failed to parse sheet'
+      };
+    }
   });
-  return parseArrayDataMulti(result.data as string[][]);
 }
 
-function parseArrayData(data: any[][]): ParsedData {
+export function parseSheets(sheets: RawSheet[], options: ParseOptions = {}): SheetParseResult<ParsedData>[] {
+  return parseEachSheet(sheets, rows => parseArrayData(rows, options));
+}
+
+export function parseSheetsMulti(sheets: RawSheet[], options: ParseOptions = {}): SheetParseResult<ParsedDataMulti>[] {
+  return parseEachSheet(sheets, rows => parseArrayDataMulti(rows, options));
+}
+
+// Pick the year for yearless headers: a 20xx year in the file name wins, otherwise the current year
+export function inferBaseYear(fileName: string, today: Date = new Date()): number {
+  const match = fileName.match(/(?:^|\D)(20\d{2})(?:\d{4})?(?:\D|$)/);
+  return match ? parseInt(match[1], 10) : today.getFullYear();
+}
+
+// Included sheets with a usable grid, in workbook order
+function includedSheets<T>(
+  sheets: SheetParseResult<T>[],
+  assignments: Record<string, SheetAssignment>
+): { sheet: SheetParseResult<T>; parsed: T; assignment?: SheetAssignment }[] {
+  const result: { sheet: SheetParseResult<T>; parsed: T; assignment?: SheetAssignment }[] = [];
+  for (const sheet of sheets) {
+    const assignment = assignments[sheet.name];
+    if (sheet.parsed === null || (assignment && !assignment.included)) continue;
+    result.push({ sheet, parsed: sheet.parsed, assignment });
+  }
+  return result;
+}
+
+// Signed and resampled rows of the included sheets, before the entity, currency and FX checks
+function sheetRows(
+  sheets: SheetParseResult<ParsedData>[],
+  assignments: Record<string, SheetAssignment>,
+  options: TransformOptions
+): SourcedRow[] {
+  const result: SourcedRow[] = [];
+  for (const { sheet, parsed, assignment } of includedSheets(sheets, assignments)) {
+    // A sheet's own entity brings its default currency unless the sheet sets one
+    const sheetEntity = assignment?.parentId.trim() || '';
+    const entity = findEntity(sheetEntity || options.parentId, options.entities ?? []);
+    result.push(...sourcedRows(parsed, {
+      ...options,
+      currency: assignment?.currency.trim().toUpperCase() || (sheetEntity && entity?.currency) || options.currency,
+      parentId: entity?.id ?? (sheetEntity || options.parentId.trim())
+    }, sheet.name));
+  }
+  return result;
+}
+
+function sheetRowsMulti(
+  sheets: SheetParseResult<ParsedDataMulti>[],
+  assignments: Record<string, SheetAssignment>,
+  options: BookingOptions
+): SourcedRow[] {
+  const result: SourcedRow[] = [];
+  for (const { sheet, parsed } of includedSheets(sheets, assignments)) {
+    result.push(...sourcedRowsMulti(parsed, options, sheet.name));
+  }
+  return result;
+}
+
+export function transformSheets(
+  sheets: SheetParseResult<ParsedData>[],
+  assignments: Record<string, SheetAssignment>,
+  options: TransformOptions
+): TransformResult {
+  return finishRows(sheetRows(sheets, assignments, options), options);
+}
+
+export function transformSheetsMulti(
+  sheets: SheetParseResult<ParsedDataMulti>[],
+  assignments: Record<string, SheetAssignment>,
+  options: BookingOptions = {}
+): TransformResult {
+  return finishRows(sheetRowsMulti(sheets, assignments, options), options);
+}
+
+// Inflow/outflow totals for the sign settings preview: signs and resampling only, so a missing
+// entity, an unknown currency or a missing FX rate doesn't hide it
+export function previewSignTotals(
+  sheets: SheetParseResult<ParsedData>[],
+  assignments: Record<string, SheetAssignment>,
+  options: TransformOptions
+): SignTotal[] {
+  return signTotals(sheetRows(sheets, assignments, options).map(({ row }) => row));
+}
+
+export function previewSignTotalsMulti(
+  sheets: SheetParseResult<ParsedDataMulti>[],
+  assignments: Record<string, SheetAssignment>,
+  options: BookingOptions = {}
+): SignTotal[] {
+  return signTotals(sheetRowsMulti(sheets, assignments, options).map(({ row }) => row));
+}
+
+function parseArrayData(data: any[][], options: ParseOptions = {}): ParsedData {
   if (data.length === 0) {
     throw new Error('File is empty');
   }
 
+  // Skip title rows, notes and blank rows above the grid
+  const headerRow = resolveHeaderRow(data, options);
+  const body = data.slice(headerRow.index + 1);
+  const firstRowNumber = headerRow.index + 2;
+  
   // Convert headers, handling Excel date serial numbers
-  console.log('[parseArrayData] Raw first row:', data[0]);
-  const headers = data[0].map(h => {
-    if (h && typeof h === 'number') {
-      const iso = excelSerialToIso(h);
-      const yr = parseInt(iso.slice(0, 4), 10);
-      if (yr >= 1900 && yr <= 2100) return iso;
-    }
-    return h?.toString() || '';
-  });
+  console.log('[parseArrayData] Raw header row:', data[headerRow.index]);
+  const headers = data[headerRow.index].map(headerCellToText);
   console.log('[parseArrayData] Converted headers:', headers);
   
-  const categoryIndex = findCategoryIndex(headers);
+  if (resolveLayout(headers, options) === 'long') {
+    const long = parseLongData(body, firstRowNumber, headers, options, false);
+    return { ...long, headerRow, layout: 'long' };
+  }
+  
+  const categoryIndex = findCategoryIndex(headers, options.columnMapping);
+  const descriptionIndex = findColumn(headers, 'description', options.columnMapping);
+  const directionIndex = findColumn(headers, 'direction', options.columnMapping);
+  const metadataColumns = findMetadataColumns(headers, options.columnMapping);
   console.log('[parseArrayData] Category index:', categoryIndex);
   
   if (categoryIndex === -1) {
     throw new Error('No "Category" column found. Please ensure your file has a "Category" header.');
   }
 
-  const { indices: dateIndices, expandedDates } = findDateIndices(headers, categoryIndex);
+  const { indices: dateIndices, expandedDates, dates, dateOrder } = findDateIndices(headers, categoryIndex, options);
   
   if (dateIndices.length === 0) {
     // Show what headers we actually found for debugging
@@ -213,71 +627,516 @@ function parseArrayData(data: any[][]): ParsedData {
     throw new Error(`No valid date columns found to the right of Category column. Headers found: ${allHeadersAfterCategory || 'NONE'}`);
   }
 
-  // Filter out empty rows
-  const nonEmptyRows = data.slice(1).filter(row => 
-    row.some(cell => cell && cell.toString().trim() !== '')
-  );
+  const { data: rows, rowNumbers, decimalSeparator, issues } = readDataRows(body, firstRowNumber, headers, categoryIndex, dateIndices, options);
 
-  if (nonEmptyRows.length === 0) {
+  if (rows.length === 0) {
     throw new Error('No data rows found. Please ensure your file has data below the header row.');
   }
+  
+  const subtotals = checkSubtotals(rows, rowNumbers, headers, categoryIndex, dateIndices, decimalSeparator.separator, options);
 
   return {
     headers,
-    data: nonEmptyRows.map(row => row.map(cell => cell?.toString() || '')),
+    data: rows,
     categoryIndex,
+    descriptionIndex,
+    directionIndex,
+    metadataColumns,
     dateIndices,
-    expandedDates
+    expandedDates,
+    dates,
+    dateOrder,
+    decimalSeparator,
+    issues,
+    headerRow,
+    rowNumbers,
+    subtotals,
+    layout: 'wide'
   };
 }
 
-function parseArrayDataMulti(data: any[][]): ParsedDataMulti {
+function parseArrayDataMulti(data: any[][], options: ParseOptions = {}): ParsedDataMulti {
   if (data.length === 0) throw new Error('File is empty');
-  const headers = data[0].map(h => {
-    if (h && typeof h === 'number') {
-      const iso = excelSerialToIso(h);
-      const yr = parseInt(iso.slice(0, 4), 10);
-      if (yr >= 1900 && yr <= 2100) return iso;
-    }
-    return h?.toString() || '';
-  });
-  const lower = headers.map(h => h.toLowerCase().trim());
-  const entityIdIndex = lower.findIndex(h => h === 'entity id' || h === 'entity_id' || h === 'parent.id');
-  const currencyIndex = lower.findIndex(h => h === 'currency' || h === 'amount.currency');
-  const categoryIndex = lower.findIndex(h => h === 'category');
+  const headerRow = resolveHeaderRow(data, options);
+  const body = data.slice(headerRow.index + 1);
+  const firstRowNumber = headerRow.index + 2;
+  const headers = data[headerRow.index].map(headerCellToText);
+  if (resolveLayout(headers, options) === 'long') {
+    const long = parseLongData(body, firstRowNumber, headers, options, true);
+    return { ...long, headerRow, layout: 'long' };
+  }
+  const entityIdIndex = findColumn(headers, 'entityId', options.columnMapping);
+  const currencyIndex = findColumn(headers, 'currency', options.columnMapping);
+  const categoryIndex = findColumn(headers, 'category', options.columnMapping);
+  const descriptionIndex = findColumn(headers, 'description', options.columnMapping);
+  const directionIndex = findColumn(headers, 'direction', options.columnMapping);
+  const metadataColumns = findMetadataColumns(headers, options.columnMapping);
   if (entityIdIndex === -1) throw new Error('No "Entity ID" column found.');
   if (currencyIndex === -1) throw new Error('No "Currency" column found.');
   if (categoryIndex === -1) throw new Error('No "Category" column found.');
-  const { indices: dateIndices } = findDateIndices(headers, categoryIndex);
+  const { indices: dateIndices, expandedDates, dates, dateOrder } = findDateIndices(headers, categoryIndex, options);
   if (dateIndices.length === 0) throw new Error('No valid date columns found to the right of Category column.');
-  const nonEmptyRows = data.slice(1).filter(row => row.some(cell => cell && cell.toString().trim() !== ''));
-  if (nonEmptyRows.length === 0) throw new Error('No data rows found.');
+  const { data: rows, rowNumbers, decimalSeparator, issues } = readDataRows(body, firstRowNumber, headers, categoryIndex, dateIndices, options);
+  if (rows.length === 0) throw new Error('No data rows found.');
+  const subtotals = checkSubtotals(rows, rowNumbers, headers, categoryIndex, dateIndices, decimalSeparator.separator, options,
+    row => `${row[entityIdIndex]?.trim()}|${row[currencyIndex]?.trim().toUpperCase()}`);
   return {
     headers,
-    data: nonEmptyRows.map(row => row.map(cell => cell?.toString() || '')),
+    data: rows,
     entityIdIndex,
     currencyIndex,
     categoryIndex,
-    dateIndices
+    descriptionIndex,
+    directionIndex,
+    metadataColumns,
+    dateIndices,
+    expandedDates,
+    dates,
+    dateOrder,
+    decimalSeparator,
+    issues,
+    headerRow,
+    rowNumbers,
+    subtotals,
+    layout: 'wide'
+  };
+}
+
+// How many rows from the top are scanned for the header row
+const HEADER_SCAN_ROWS = 30;
+
+function resolveHeaderRow(data: any[][], options: ParseOptions): HeaderRowResult {
+  if (options.headerRow !== undefined) {
+    if (options.headerRow < 0 || options.headerRow >= data.length) {
+      throw new Error(`Header row ${options.headerRow + 1} is outside the sheet (${data.length} rows).`);
+    }
+    return { index: options.headerRow, detected: false };
+  }
+  const index = detectHeaderRow(data, options);
+  return index === null ? { index: 0, detected: false } : { index, detected: true };
+}
+
+// First row with a Category cell followed by a date-like cell (or long-layout Date/Amount columns).
+// Falls back to the first row with a Category cell at all.
+function detectHeaderRow(data: any[][], options: ParseOptions): number | null {
+  let firstCategoryRow: number | null = null;
+  for (let i = 0; i < Math.min(data.length, HEADER_SCAN_ROWS); i++) {
+    const headers = (data[i] ?? []).map(headerCellToText);
+    const categoryIndex = findCategoryIndex(headers, options.columnMapping);
+    if (categoryIndex === -1) continue;
+    if (firstCategoryRow === null) firstCategoryRow = i;
+    const nextHeader = headers.slice(categoryIndex + 1)
+      .filter(h => !options.columnMapping?.[h.trim()])
+      .map(normalizeDateText)
+      .find(h => h !== '');
+    if ((nextHeader && isValidDateHeader(nextHeader)) || resolveLayout(headers, { columnMapping: options.columnMapping }) === 'long') {
+      console.log(`[detectHeaderRow] Header row found at row ${i + 1}`);
+      return i;
+    }
+  }
+  return firstCategoryRow;
+}
+
+// Header names recognized without a column mapping
+const COLUMN_ALIASES: { [role in ColumnRole]: string[] } = {
+  entityId: ['entity id', 'entity_id', 'parent.id'],
+  currency: ['currency', 'amount.currency'],
+  category: ['category'],
+  description: ['description'],
+  direction: ['direction', 'flow', 'in/out'],
+  metadata: [],
+  ignore: []
+};
+
+// Column for a role: an explicit mapping wins, otherwise the first unmapped column with a known name
+function findColumn(headers: string[], role: ColumnRole, mapping: ColumnMapping = {}): number {
+  const mapped = headers.findIndex(h => mapping[h.trim()] === role);
+  if (mapped !== -1) return mapped;
+  return headers.findIndex(h => !mapping[h.trim()] && COLUMN_ALIASES[role].includes(h.toLowerCase().trim()));
+}
+
+// A header that already is an output metadata column name, other than the Atlar category
+function isOutputMetadataHeader(header: string): boolean {
+  return /^metadata\.[A-Za-z0-9]/.test(header) && header !== 'metadata.atlar.category';
+}
+
+// Output columns the transform writes itself; a mapped column can't take their place
+const RESERVED_METADATA_KEYS = ['metadata.atlar.category', 'metadata.originalCurrency', 'metadata.originalAmount', 'metadata.fxRate'];
+
+// Letters without diacritics ("Kostnadsställe" -> "Kostnadsstalle") so Swedish headers give readable keys
+function asciiLetters(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[øØ]/g, match => (match === 'ø' ? 'o' : 'O'))
+    .replace(/[æÆ]/g, match => (match === 'æ' ? 'ae' : 'Ae'))
+    .replace(/ß/g, 'ss');
+}
+
+// Columns mapped to the metadata role, keyed by their header in camelCase ("Cost Center" -> metadata.costCenter)
+function findMetadataColumns(headers: string[], mapping: ColumnMapping = {}): MetadataColumn[] {
+  const columns: MetadataColumn[] = [];
+  const headerOf: { [key: string]: string } = {};
+  const add = (index: number, name: string, key: MetadataKey) => {
+    if (headerOf[key] !== undefined) {
+      throw new Error(`Columns "${headerOf[key]}" and "${name}" both become ${key}. Rename one of them or map it to another role.`);
+    }
+    headerOf[key] = name;
+    columns.push({ index, key });
+  };
+  headers.forEach((header, index) => {
+    const name = header.trim();
+    // Headers already named like an output column (grids rebuilt from an Atlar file) keep that name
+    if (mapping[name] === undefined && isOutputMetadataHeader(name)) {
+      add(index, name, name as MetadataKey);
+      return;
+    }
+    if (!name || mapping[name] !== 'metadata') return;
+    const words = asciiLetters(name).split(/[^A-Za-z0-9]+/).filter(word => word !== '');
+    const camel = words.map((word, i) => (i === 0 ? word.charAt(0).toLowerCase() : word.charAt(0).toUpperCase()) + word.slice(1)).join('');
+    const key: MetadataKey = `metadata.${camel || `column${index + 1}`}`;
+    if (RESERVED_METADATA_KEYS.includes(key)) {
+      throw new Error(`Column "${name}" would become ${key}, which the transform writes itself. Rename the column or map it to another role.`);
+    }
+    add(index, name, key);
+  });
+  return columns;
+}
+
+// Headers of the sheet's header row, for the column-mapping step
+export function readHeaders(rows: any[][], options: ParseOptions = {}): string[] {
+  if (rows.length === 0) return [];
+  return rows[resolveHeaderRow(rows, options).index].map(headerCellToText);
+}
+
+// Identifies a file layout by its non-date headers, so next month's file (new dates) matches
+export function headerSignature(headers: string[]): string {
+  return headers
+    .map(h => normalizeDateText(h).toLowerCase())
+    .filter(h => h !== '' && !isValidDateHeader(h))
+    .join('|');
+}
+
+// Signatures of every row that could be the header row, for finding a remembered mapping before
+// the header row is known (a file needing a mapping has no Category header to detect it by)
+export function candidateHeaderSignatures(rows: any[][]): string[] {
+  return rows.slice(0, HEADER_SCAN_ROWS)
+    .map(row => headerSignature((row ?? []).map(headerCellToText)))
+    .filter(signature => signature !== '');
+}
+const LONG_DATE_HEADERS = ['date'];
+const LONG_AMOUNT_HEADERS = ['amount', 'amount.stringvalue', 'value'];
+
+// Long layout when there are Date and Amount columns and no date headers right of Category
+function resolveLayout(headers: string[], options: ParseOptions): InputLayout {
+  if (options.layout) return options.layout;
+  const lower = headers.map(h => h.toLowerCase().trim());
+  const categoryIndex = findCategoryIndex(headers, options.columnMapping);
+  const hasLongColumns = lower.some(h => LONG_DATE_HEADERS.includes(h)) && lower.some(h => LONG_AMOUNT_HEADERS.includes(h));
+  if (!hasLongColumns || categoryIndex === -1) return 'wide';
+  const nextHeader = headers.slice(categoryIndex + 1).map(normalizeDateText).find(h => h !== '');
+  return nextHeader && isValidDateHeader(nextHeader) ? 'wide' : 'long';
+}
+
+// Pivot a long layout (one row per date/category/amount) into the wide grid the transforms expect.
+// The grid has Entity ID, Currency and Category columns followed by one column per distinct date.
+function parseLongData(
+  body: any[][],
+  firstRowNumber: number,
+  headers: string[],
+  options: ParseOptions,
+  requireEntity: boolean
+) {
+  const lower = headers.map(h => h.toLowerCase().trim());
+  const dateColumn = lower.findIndex(h => LONG_DATE_HEADERS.includes(h));
+  const amountColumn = lower.findIndex(h => LONG_AMOUNT_HEADERS.includes(h));
+  const categoryColumn = findColumn(headers, 'category', options.columnMapping);
+  const entityColumn = findColumn(headers, 'entityId', options.columnMapping);
+  const currencyColumn = findColumn(headers, 'currency', options.columnMapping);
+  const descriptionColumn = findColumn(headers, 'description', options.columnMapping);
+  const directionColumn = findColumn(headers, 'direction', options.columnMapping);
+  const sourceMetadata = findMetadataColumns(headers, options.columnMapping);
+  if (categoryColumn === -1) throw new Error('No "Category" column found. Please ensure your file has a "Category" header.');
+  if (dateColumn === -1) throw new Error('No "Date" column found for the long layout.');
+  if (amountColumn === -1) throw new Error('No "Amount" column found for the long layout.');
+  if (requireEntity && entityColumn === -1) throw new Error('No "Entity ID" column found.');
+  if (requireEntity && currencyColumn === -1) throw new Error('No "Currency" column found.');
+
+  const { data: rows, rowNumbers, decimalSeparator, issues } = readDataRows(body, firstRowNumber, headers, categoryColumn, [amountColumn], options);
+  if (rows.length === 0) throw new Error('No data rows found. Please ensure your file has data below the header row.');
+
+  // Same date handling as wide headers: one DD/MM decision for the column, rollover in row order
+  const dateTexts = body.map(row => normalizeDateText(headerCellToText(row[dateColumn])));
+  const dateOrder = detectDateOrder(dateTexts, options.dateOrder ?? 'DMY');
+  const resolveDate = createDateResolver(options, dateOrder);
+
+  // Resolve each distinct date label once, in order of appearance
+  const resolved = new Map<string, { range?: string[], date?: string }>();
+  const rowLabels: string[] = [];
+  rows.forEach(row => {
+    const label = normalizeDateText(row[dateColumn] ?? '');
+    rowLabels.push(label);
+    if (row[categoryColumn]?.trim() && label && !resolved.has(label) && isValidDateHeader(label)) {
+      resolved.set(label, resolveDate(label));
+    }
+  });
+
+  const labels: string[] = [];
+  resolved.forEach((value, label) => {
+    if (value.range || value.date) labels.push(label);
+  });
+  const firstDate = (label: string) => {
+    const value = resolved.get(label)!;
+    return value.range ? value.range[0] : value.date!;
+  };
+  labels.sort((a, b) => firstDate(a).localeCompare(firstDate(b)));
+  if (labels.length === 0) throw new Error('No valid dates found in the "Date" column.');
+
+  const FIXED_COLUMNS = 5 + sourceMetadata.length;
+  const gridHeaders = ['Entity ID', 'Currency', 'Category', 'Description', 'Direction', ...sourceMetadata.map(m => headers[m.index]), ...labels];
+  const columnOf = new Map<string, number>();
+  labels.forEach((label, i) => columnOf.set(label, FIXED_COLUMNS + i));
+  const dates = new Map<number, string>();
+  const expandedDates = new Map<number, string[]>();
+  labels.forEach(label => {
+    const value = resolved.get(label)!;
+    if (value.range) expandedDates.set(columnOf.get(label)!, value.range);
+    else dates.set(columnOf.get(label)!, value.date!);
+  });
+
+  // One grid row per entity/currency/category (and description, direction, metadata); a repeated
+  // date for the same key opens a new row so duplicates stay visible instead of being merged here
+  const grid: string[][] = [];
+  const gridRowNumbers: number[] = [];
+  const gridRowsByKey = new Map<string, string[][]>();
+  rows.forEach((row, i) => {
+    const category = row[categoryColumn]?.trim();
+    if (!category) return;
+    const column = columnOf.get(rowLabels[i]);
+    if (column === undefined) {
+      issues.push({
+        rowNumber: rowNumbers[i],
+        columnIndex: dateColumn,
+        header: headers[dateColumn],
+        value: row[dateColumn] ?? '',
+        message: 'Not a valid date',
+        severity: 'error'
+      });
+      return;
+    }
+    const entity = entityColumn === -1 ? '' : row[entityColumn] ?? '';
+    const currency = currencyColumn === -1 ? '' : row[currencyColumn] ?? '';
+    const description = descriptionColumn === -1 ? '' : row[descriptionColumn] ?? '';
+    const direction = directionColumn === -1 ? '' : row[directionColumn] ?? '';
+    const metadata = sourceMetadata.map(m => row[m.index] ?? '');
+    const key = [entity, currency, category, description, direction, ...metadata].join('\u0000');
+    const candidates = gridRowsByKey.get(key) ?? [];
+    let target = candidates.find(candidate => !candidate[column]);
+    if (!target) {
+      target = [entity, currency, category, description, direction, ...metadata, ...labels.map(() => '')];
+      candidates.push(target);
+      gridRowsByKey.set(key, candidates);
+      grid.push(target);
+      gridRowNumbers.push(rowNumbers[i]);
+    }
+    target[column] = row[amountColumn] ?? '';
+  });
+
+  const dateIndices = labels.map(label => columnOf.get(label)!);
+  const subtotals = checkSubtotals(grid, gridRowNumbers, gridHeaders, 2, dateIndices, decimalSeparator.separator, options,
+    row => requireEntity ? `${row[0].trim()}|${row[1].trim().toUpperCase()}` : '');
+
+  return {
+    headers: gridHeaders,
+    data: grid,
+    entityIdIndex: 0,
+    currencyIndex: 1,
+    categoryIndex: 2,
+    descriptionIndex: descriptionColumn === -1 ? -1 : 3,
+    directionIndex: directionColumn === -1 ? -1 : 4,
+    metadataColumns: sourceMetadata.map((m, i) => ({ index: 5 + i, key: m.key })),
+    dateIndices,
+    rowNumbers: gridRowNumbers,
+    subtotals,
+    dates,
+    expandedDates,
+    dateOrder,
+    decimalSeparator,
+    issues
+  };
+}
+
+// Words that mark a row as a total of the rows above it ("Total Opex", "Summa kostnader")
+const TOTAL_KEYWORDS = /\b(?:grand total|sub-?total|totalt?|totals|summa|sum)\b/i;
+
+export function isTotalCategory(category: string): boolean {
+  return TOTAL_KEYWORDS.test(category);
+}
+
+export function normalizeCategoryPath(category: string): string {
+  return category.split('>').map(part => part.trim().toLowerCase()).join('>');
+}
+
+export function parentPath(path: string): string | null {
+  const cut = path.lastIndexOf('>');
+  return cut === -1 ? null : path.slice(0, cut);
+}
+
+// Find parent rows ("Marketing" above "Marketing>Ads") and total rows ("Total Opex"), compare each
+// with the sum of its children per date column, and mark the ones that match for exclusion.
+// Rows are only compared within the same group (entity and currency in multi-entity files).
+function checkSubtotals(
+  rows: string[][],
+  rowNumbers: number[],
+  headers: string[],
+  categoryIndex: number,
+  dateIndices: number[],
+  decimalSeparator: DecimalSeparator,
+  options: ParseOptions,
+  groupOf: (row: string[]) => string = () => ''
+): SubtotalCheck[] {
+  const entries = rows
+    .map((row, rowIndex) => ({ row, rowIndex, category: row[categoryIndex]?.trim() ?? '', group: groupOf(row) }))
+    .filter(entry => entry.category !== '')
+    .map(entry => ({ ...entry, path: normalizeCategoryPath(entry.category), isTotal: TOTAL_KEYWORDS.test(entry.category) }));
+
+  const checks: SubtotalCheck[] = [];
+  entries.forEach((entry, position) => {
+    const sameGroup = entries.filter(other => other.group === entry.group && other !== entry);
+    let children = sameGroup.filter(other => !other.isTotal && parentPath(other.path) === entry.path);
+
+    if (entry.isTotal && children.length === 0) {
+      // "Total Marketing" sums the Marketing> rows; a bare "Total" sums the leaf rows above it
+      const name = normalizeCategoryPath(entry.category.replace(TOTAL_KEYWORDS, '').replace(/^[\s:\-]+|[\s:\-]+$/g, ''));
+      children = name ? sameGroup.filter(other => !other.isTotal && parentPath(other.path) === name) : [];
+      if (children.length === 0) {
+        const block: typeof entries = [];
+        for (let i = position - 1; i >= 0 && !(entries[i].isTotal && entries[i].group === entry.group); i--) {
+          if (entries[i].group === entry.group) block.unshift(entries[i]);
+        }
+        // A grand total right below another total sums every leaf row above it
+        const candidates = block.length > 0
+          ? block
+          : entries.slice(0, position).filter(other => other.group === entry.group && !other.isTotal);
+        children = candidates.filter(candidate => !candidates.some(other => parentPath(other.path) === candidate.path));
+      }
+    }
+    if (children.length === 0) return;
+
+    const mismatches: SubtotalCheck['mismatches'] = [];
+    for (const dateIndex of dateIndices) {
+      const value = parseAmount(entry.row[dateIndex], decimalSeparator) ?? 0;
+      const childrenSum = children.reduce((sum, child) => sum + (parseAmount(child.row[dateIndex], decimalSeparator) ?? 0), 0);
+      if (Math.abs(value - childrenSum) > 0.005) {
+        mismatches.push({ header: headers[dateIndex], value, childrenSum });
+      }
+    }
+
+    checks.push({
+      rowIndex: entry.rowIndex,
+      rowNumber: rowNumbers[entry.rowIndex],
+      category: entry.category,
+      children: children.map(child => child.category),
+      excluded: options.excludeSubtotals !== false && mismatches.length === 0,
+      mismatches
+    });
+  });
+
+  if (checks.length > 0) {
+    console.log(`[checkSubtotals] ${checks.filter(c => c.excluded).length} of ${checks.length} subtotal rows excluded`);
+  }
+  return checks;
+}
+
+// Drop empty rows, stringify cells and check every amount cell against the file's decimal convention
+function readDataRows(
+  rows: any[][],
+  firstRowNumber: number,
+  headers: string[],
+  categoryIndex: number,
+  dateIndices: number[],
+  options: ParseOptions
+): { data: string[][], rowNumbers: number[], decimalSeparator: DecimalSeparatorResult, issues: CellIssue[] } {
+  const nonEmptyRows: { row: any[], rowNumber: number }[] = [];
+  rows.forEach((row, i) => {
+    if (row.some(cell => cell && cell.toString().trim() !== '')) {
+      nonEmptyRows.push({ row, rowNumber: firstRowNumber + i });
+    }
+  });
+
+  // Only text cells vote on the convention; numeric XLSX cells are already unambiguous
+  const amountRows = nonEmptyRows.filter(({ row }) => row[categoryIndex]?.toString().trim());
+  const textAmounts: string[] = [];
+  for (const { row } of amountRows) {
+    for (const dateIndex of dateIndices) {
+      if (typeof row[dateIndex] === 'string') textAmounts.push(row[dateIndex]);
+    }
+  }
+  const decimalSeparator: DecimalSeparatorResult = options.decimalSeparator
+    ? { separator: options.decimalSeparator, source: 'setting' }
+    : detectDecimalSeparator(textAmounts);
+
+  const toText = (cell: any): string => {
+    if (typeof cell === 'number') {
+      const text = String(cell);
+      return decimalSeparator.separator === ',' ? text.replace('.', ',') : text;
+    }
+    return cell?.toString() || '';
   };
+  const data = nonEmptyRows.map(({ row }) => row.map(toText));
+
+  const issues: CellIssue[] = [];
+  for (const { row, rowNumber } of amountRows) {
+    for (const dateIndex of dateIndices) {
+      const value = toText(row[dateIndex]);
+      const result = readAmount(value, decimalSeparator.separator);
+      const ambiguous = result.ambiguous && decimalSeparator.source === 'default';
+      if (result.error || ambiguous) {
+        issues.push({
+          rowNumber,
+          columnIndex: dateIndex,
+          header: headers[dateIndex],
+          value,
+          message: result.error ?? `Ambiguous separator, read as ${result.value}`,
+          severity: result.error ? 'error' : 'warning'
+        });
+      }
+    }
+  }
+  if (issues.length > 0) {
+    console.warn(`[readDataRows] ${issues.length} amount cell(s) need attention`, issues);
+  }
+
+  return { data, rowNumbers: nonEmptyRows.map(({ rowNumber }) => rowNumber), decimalSeparator, issues };
 }
 
-function findCategoryIndex(headers: string[]): number {
-  return headers.findIndex(header => 
-    header && typeof header === 'string' && header.toLowerCase().trim() === 'category'
-  );
+function findCategoryIndex(headers: string[], mapping: ColumnMapping = {}): number {
+  return findColumn(headers.map(header => typeof header === 'string' ? header : ''), 'category', mapping);
 }
 
-function findDateIndices(headers: string[], categoryIndex: number): { indices: number[], expandedDates: Map<number, string[]> } {
+function findDateIndices(
+  headers: string[],
+  categoryIndex: number,
+  options: ParseOptions = {}
+): { indices: number[], expandedDates: Map<number, string[]>, dates: Map<number, string>, dateOrder: DateOrderResult | null } {
   const dateIndices: number[] = [];
   const expandedDates = new Map<number, string[]>();
+  const dates = new Map<number, string>();
+  
+  // Decide DD/MM vs MM/DD once for the whole header row so every column uses the same order
+  const dateOrder = detectDateOrder(headers.slice(categoryIndex + 1), options.dateOrder ?? 'DMY');
+  const resolveDate = createDateResolver(options, dateOrder);
   
   // Check headers starting from after Category column
   for (let i = categoryIndex + 1; i < headers.length; i++) {
     const header = headers[i];
     
-    // Skip empty headers but continue checking
-    if (!header) {
+    // Skip empty headers, mapped columns, Description/Direction columns and metadata.* columns but continue checking
+    if (
+      !header
+      || options.columnMapping?.[header.trim()]
+      || COLUMN_ALIASES.direction.includes(header.trim().toLowerCase())
+      || COLUMN_ALIASES.description.includes(header.trim().toLowerCase())
+      || isOutputMetadataHeader(header.trim())
+    ) {
       continue;
     }
     
@@ -301,11 +1160,12 @@ function findDateIndices(headers: string[], categoryIndex: number): { indices: n
     if (isValid) {
       dateIndices.push(i);
       
-      // Check if it's a week range and expand it
-      const weekRange = parseWeekRange(normalizedHeader);
-      if (weekRange) {
-        console.log(`[findDateIndices] Week range detected, expanded to ${weekRange.length} dates`);
-        expandedDates.set(i, weekRange);
+      const { range, date } = resolveDate(normalizedHeader);
+      if (range) {
+        console.log(`[findDateIndices] Week range detected, expanded to ${range.length} dates`);
+        expandedDates.set(i, range);
+      } else if (date) {
+        dates.set(i, date);
       }
     } else {
       // Stop at first non-empty, non-date header
@@ -316,11 +1176,162 @@ function findDateIndices(headers: string[], categoryIndex: number): { indices: n
   }
   
   console.log(`[findDateIndices] Returning ${dateIndices.length} date indices:`, dateIndices);
-  return { indices: dateIndices, expandedDates };
+  return { indices: dateIndices, expandedDates, dates, dateOrder };
+}
+
+// A yearless header landing this far before the previous one has rolled over into the next year
+const ROLLOVER_THRESHOLD_DAYS = 180;
+
+// Resolve date headers in sequence. Yearless headers take the running year, which moves
+// forward when they roll over (Dec -> Jan, v.52 -> v.1); explicit years and cross-year ranges move it too.
+function createDateResolver(
+  options: ParseOptions,
+  dateOrder: DateOrderResult | null
+): (normalizedHeader: string) => { range?: string[], date?: string } {
+  let year = options.baseYear ?? new Date().getFullYear();
+  let previousStart: string | null = null;
+
+  const resolveWithYear = (header: string, headerYear: number): { range?: string[], date?: string } => {
+    const range = parseWeekRange(header, headerYear) ?? parsePeriodHeader(header, headerYear);
+    if (range) return { range };
+    return { date: parseDate(header, headerYear, dateOrder?.order) ?? undefined };
+  };
+  const startOf = (resolved: { range?: string[], date?: string }) => resolved.range ? resolved.range[0] : resolved.date;
+
+  return (normalizedHeader: string) => {
+    let resolved = resolveWithYear(normalizedHeader, year);
+    const start = startOf(resolved);
+    if (start && previousStart && daysBetween(start, previousStart) > ROLLOVER_THRESHOLD_DAYS) {
+      // Only yearless headers change when tried with the next year
+      const nextYear = resolveWithYear(normalizedHeader, year + 1);
+      if (startOf(nextYear) !== start) {
+        resolved = nextYear;
+        console.log(`[createDateResolver] Year rollover detected at "${normalizedHeader}", now ${year + 1}`);
+      }
+    }
+
+    // Continue from where this header ends
+    const lastDate = resolved.range ? resolved.range[resolved.range.length - 1] : resolved.date;
+    if (lastDate) {
+      year = parseInt(lastDate.slice(0, 4), 10);
+      previousStart = startOf(resolved)!;
+    }
+    return resolved;
+  };
+}
+
+// Whole days from a to b (ISO dates)
+function daysBetween(a: string, b: string): number {
+  const toUtc = (iso: string) => Date.UTC(parseInt(iso.slice(0, 4), 10), parseInt(iso.slice(5, 7), 10) - 1, parseInt(iso.slice(8, 10), 10));
+  return Math.round((toUtc(b) - toUtc(a)) / MS_PER_DAY);
+}
+
+// Every ISO date from start to end inclusive (UTC milliseconds)
+function datesBetween(startUtcMs: number, endUtcMs: number): string[] {
+  const dates: string[] = [];
+  for (let ms = startUtcMs; ms <= endUtcMs; ms += MS_PER_DAY) {
+    const d = new Date(ms);
+    dates.push(formatIsoDate(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  }
+  return dates;
+}
+
+// Monday of ISO week 1 is the Monday of the week containing January 4th
+function isoWeekStartUtc(year: number, week: number): number {
+  const jan4 = Date.UTC(year, 0, 4);
+  const daysSinceMonday = (new Date(jan4).getUTCDay() + 6) % 7;
+  return jan4 - daysSinceMonday * MS_PER_DAY + (week - 1) * 7 * MS_PER_DAY;
+}
+
+function isoWeekDates(year: number, week: number): string[] | null {
+  const weeksInYear = Math.round((isoWeekStartUtc(year + 1, 1) - isoWeekStartUtc(year, 1)) / (7 * MS_PER_DAY));
+  if (week < 1 || week > weeksInYear) return null;
+  const start = isoWeekStartUtc(year, week);
+  return datesBetween(start, start + 6 * MS_PER_DAY);
+}
+
+function monthDates(year: number, monthZeroBased: number, months: number = 1): string[] {
+  return datesBetween(Date.UTC(year, monthZeroBased, 1), Date.UTC(year, monthZeroBased + months, 0));
+}
+
+// Expand period headers to every day they cover: months ("Jan 2025", "2025-01"), quarters ("Q1 2025"),
+// ISO weeks ("2025-W05") and Swedish week notation ("v.5", "v. 5 2025"; the year is optional)
+function parsePeriodHeader(header: string, year: number = new Date().getFullYear()): string[] | null {
+  const trimmed = header.trim();
+
+  const monthName = trimmed.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/i);
+  if (monthName) {
+    const month = MONTH_INDEX[monthName[1].toLowerCase()];
+    return month === undefined ? null : monthDates(parseInt(monthName[2], 10), month);
+  }
+
+  const yearMonth = trimmed.match(/^(\d{4})-(\d{2})$/);
+  if (yearMonth) {
+    const month = parseInt(yearMonth[2], 10);
+    return month >= 1 && month <= 12 ? monthDates(parseInt(yearMonth[1], 10), month - 1) : null;
+  }
+
+  const quarter = trimmed.match(/^Q([1-4])[\s-]*(\d{4})$/i) ?? trimmed.match(/^(\d{4})[\s-]*Q([1-4])$/i);
+  if (quarter) {
+    const [q, y] = /^Q/i.test(trimmed) ? [quarter[1], quarter[2]] : [quarter[2], quarter[1]];
+    return monthDates(parseInt(y, 10), (parseInt(q, 10) - 1) * 3, 3);
+  }
+
+  const isoWeek = trimmed.match(/^(\d{4})-?W(\d{1,2})$/i);
+  if (isoWeek) {
+    return isoWeekDates(parseInt(isoWeek[1], 10), parseInt(isoWeek[2], 10));
+  }
+
+  const swedishWeek = trimmed.match(/^(?:v|vecka)\.?\s*(\d{1,2})(?:\s+(\d{4}))?$/i);
+  if (swedishWeek) {
+    return isoWeekDates(swedishWeek[2] ? parseInt(swedishWeek[2], 10) : year, parseInt(swedishWeek[1], 10));
+  }
+
+  return null;
+}
+
+// Header cells from XLSX may be Excel date serials; everything else is read as text
+export function headerCellToText(cell: any): string {
+  if (cell && typeof cell === 'number') {
+    const iso = excelSerialToIso(cell);
+    const yr = parseInt(iso.slice(0, 4), 10);
+    if (yr >= 1900 && yr <= 2100) return iso;
+  }
+  // A stray BOM would otherwise stop "Category" from matching
+  return (cell?.toString() || '').replace(/^\uFEFF/, '');
+}
+
+function normalizeDateText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').replace(/[–—]/g, '-');
 }
 
-// Parse week range (e.g., "Oct 27 - Nov 2" or "Nov 3-9") and expand to individual dates
-function parseWeekRange(rangeStr: string): string[] | null {
+// A first part above 12 means DD/MM, a second part above 12 means MM/DD; otherwise use the fallback
+export function detectDateOrder(headers: string[], fallback: DateOrder): DateOrderResult | null {
+  let hasSlashDates = false;
+  let dayFirst: string | null = null;
+  let monthFirst: string | null = null;
+  
+  for (const header of headers) {
+    const match = String(header ?? '').trim().match(/^(\d{1,2})\/(\d{1,2})\/\d{4}$/);
+    if (!match) continue;
+    hasSlashDates = true;
+    if (parseInt(match[1], 10) > 12) dayFirst = dayFirst ?? match[0];
+    if (parseInt(match[2], 10) > 12) monthFirst = monthFirst ?? match[0];
+  }
+  
+  if (!hasSlashDates) return null;
+  if (dayFirst && monthFirst) {
+    throw new Error(`Date headers mix DD/MM and MM/DD order ("${dayFirst}" and "${monthFirst}"). Please use one order for all columns.`);
+  }
+  if (dayFirst) return { order: 'DMY', detected: true };
+  if (monthFirst) return { order: 'MDY', detected: true };
+  return { order: fallback, detected: false };
+}
+
+
+// Parse week range (e.g., "Oct 27 - Nov 2" or "Nov 3-9") and expand to individual dates.
+// A range whose end month is before its start month ("Dec 29 - Jan 4") ends in the next year.
+function parseWeekRange(rangeStr: string, year: number = new Date().getFullYear()): string[] | null {
   // Normalize: trim, collapse whitespace, and normalize dashes to '-'
   const trimmed = rangeStr
     .trim()
@@ -332,13 +1343,7 @@ function parseWeekRange(rangeStr: string): string[] | null {
   // Pattern: "Mon DD-DD" (same month)
   const rangePattern2 = /^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|jan|feb|mar|apr|may|jun|jul|aug|sep|okt|nov|dec)\s+(\d{1,2})\s*[-–—]\s*(\d{1,2})$/i;
   
-  const monthMap: { [key: string]: number } = {
-    'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
-    'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'okt': 9, 'nov': 10, 'dec': 11
-  };
-  
   let startMonth: number, startDay: number, endMonth: number, endDay: number;
-  const year = 2025;
   
   const match1 = trimmed.match(rangePattern1);
   const match2 = trimmed.match(rangePattern2);
@@ -346,15 +1351,15 @@ function parseWeekRange(rangeStr: string): string[] | null {
   if (match1) {
     // Full range: "Oct 27 - Nov 2"
     console.log(`[parseWeekRange] Matched pattern1: ${match1[0]}`);
-    startMonth = monthMap[match1[1].toLowerCase()];
+    startMonth = MONTH_INDEX[match1[1].toLowerCase()];
     startDay = parseInt(match1[2], 10);
-    endMonth = monthMap[match1[3].toLowerCase()];
+    endMonth = MONTH_INDEX[match1[3].toLowerCase()];
     endDay = parseInt(match1[4], 10);
     console.log(`[parseWeekRange] Extracted: month1=${startMonth}, day1=${startDay}, month2=${endMonth}, day2=${endDay}`);
   } else if (match2) {
     // Same month: "Nov 3-9"
     console.log(`[parseWeekRange] Matched pattern2: ${match2[0]}`);
-    startMonth = monthMap[match2[1].toLowerCase()];
+    startMonth = MONTH_INDEX[match2[1].toLowerCase()];
     startDay = parseInt(match2[2], 10);
     endMonth = startMonth;
     endDay = parseInt(match2[3], 10);
@@ -372,7 +1377,7 @@ function parseWeekRange(rangeStr: string): string[] | null {
   // Generate all dates in range
   const dates: string[] = [];
   const start = new Date(year, startMonth, startDay);
-  const end = new Date(year, endMonth, endDay);
+  const end = new Date(endMonth < startMonth ? year + 1 : year, endMonth, endDay);
   
   console.log(`[parseWeekRange] Date range: ${start.toISOString()} to ${end.toISOString()}`);
   
@@ -390,15 +1395,15 @@ function isValidDateHeader(header: string): boolean {
   // Normalize: trim and replace multiple whitespace with single space
   const normalized = header.trim().replace(/\s+/g, ' ').replace(/[–—]/g, '-');
   
-  // Try week-range parse directly
+  // Try week-range and period parses directly
   const weekRange = parseWeekRange(normalized);
   if (weekRange) return true;
+  if (parsePeriodHeader(normalized)) return true;
   
   // Check various date formats
   const dateFormats = [
     /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD
-    /^\d{2}\/\d{2}\/\d{4}$/, // DD/MM/YYYY
-    /^\d{2}\/\d{2}\/\d{4}$/, // MM/DD/YYYY
+    /^\d{1,2}\/\d{1,2}\/\d{4}$/, // DD/MM/YYYY or MM/DD/YYYY
     /^\d+$/, // Excel serial number
     /^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|jan|feb|mar|apr|may|jun|jul|aug|sep|okt|nov|dec)\s+\d{1,2}$/i, // Mon XX format (e.g., "Oct 29", "okt 29")
   ];
@@ -406,7 +1411,8 @@ function isValidDateHeader(header: string): boolean {
   return dateFormats.some(format => format.test(normalized));
 }
 
-export function parseDate(dateStr: string): string | null {
+// dateOrder fixes how slash dates are read; without it MM/DD is tried first, then DD/MM
+export function parseDate(dateStr: string, year: number = new Date().getFullYear(), dateOrder?: DateOrder): string | null {
   if (!dateStr) return null;
   
   const trimmed = dateStr.trim();
@@ -418,21 +1424,17 @@ export function parseDate(dateStr: string): string | null {
   
   // DD/MM/YYYY or MM/DD/YYYY format (allow single-digit day/month)
   if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(trimmed)) {
-    const parts = trimmed.split('/');
-    const a = parts[0];
-    const b = parts[1];
-    const year = parts[2];
-    
-    // Prefer MM/DD first (common in exports), then fallback to DD/MM
-    const mmdd = new Date(`${year}-${a.padStart(2, '0')}-${b.padStart(2, '0')}`);
-    const ddmm = new Date(`${year}-${b.padStart(2, '0')}-${a.padStart(2, '0')}`);
+    const [a, b, yearPart] = trimmed.split('/').map(part => parseInt(part, 10));
     
-    if (!isNaN(mmdd.getTime()) && mmdd.getFullYear() == parseInt(year)) {
-      return mmdd.toISOString().split('T')[0];
-    }
-    if (!isNaN(ddmm.getTime()) && ddmm.getFullYear() == parseInt(year)) {
-      return ddmm.toISOString().split('T')[0];
+    const orders: DateOrder[] = dateOrder ? [dateOrder] : ['MDY', 'DMY'];
+    for (const order of orders) {
+      const month = order === 'MDY' ? a : b;
+      const day = order === 'MDY' ? b : a;
+      if (isValidCalendarDate(yearPart, month - 1, day)) {
+        return formatIsoDate(yearPart, month - 1, day);
+      }
     }
+    return null;
   }
   
   // Month name + day format (e.g., "Oct 30", "Nov 1")
@@ -441,16 +1443,8 @@ export function parseDate(dateStr: string): string | null {
     const monthName = monthNameMatch[1];
     const day = monthNameMatch[2];
     
-    // Use 2025 as the year for all dates
-    const year = 2025;
-    
-    // Map month names to numbers (including non-English)
-    const monthMap: { [key: string]: number } = {
-      'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
-      'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'okt': 9, 'nov': 10, 'dec': 11
-    };
-    
-    const monthNum = monthMap[monthName.toLowerCase()];
+    // Month names map to numbers (including non-English); the year comes from the caller
+    const monthNum = MONTH_INDEX[monthName.toLowerCase()];
     if (monthNum !== undefined) {
       // Build ISO directly to avoid timezone shifts
       return formatIsoDate(year, monthNum, parseInt(day, 10));
@@ -468,17 +1462,131 @@ export function parseDate(dateStr: string): string | null {
   return null;
 }
 
-export function parseAmount(amountStr: string): number | null {
-  if (!amountStr) return null;
-  
-  const trimmed = amountStr.toString().trim();
-  if (trimmed === '') return null;
-  
-  // Replace comma with dot for decimal separator
-  const normalized = trimmed.replace(',', '.');
-  const parsed = parseFloat(normalized);
-  
-  return isNaN(parsed) ? null : parsed;
+// Leading/trailing currency symbols, ISO 4217 codes or local units ("SEK 100", "100 kr", "$100", "100 €", "100:-").
+// Other letters ("500k", "1.5M", "5 days") are not stripped, so the cell is reported instead of misread.
+const CURRENCY_PREFIX = /^([A-Za-z]{1,3}\.?|[$€£¥₹])\s*/;
+const CURRENCY_SUFFIX = /\s*([A-Za-z]{1,3}\.?|:-|[$€£¥₹])$/;
+const CURRENCY_SYMBOLS = ['$', '€', '£', '¥', '₹'];
+const LOCAL_CURRENCY_UNITS = ['kr', 'kr.', ':-'];
+
+function isCurrencyMarker(token: string): boolean {
+  return CURRENCY_SYMBOLS.includes(token)
+    || LOCAL_CURRENCY_UNITS.includes(token.toLowerCase())
+    || (/^[A-Za-z]{3}$/.test(token) && isIsoCurrency(token));
+}
+
+interface AmountReadResult {
+  value: number | null; // null for empty or unreadable cells
+  error?: string;
+  // A lone separator followed by exactly three digits ("1,234") reads differently per convention
+  ambiguous?: boolean;
+}
+
+// Read an amount using the given decimal separator; the other of '.' and ',' is the group separator.
+// Without a separator the cell decides on its own (the last separator seen is the decimal one).
+function readAmount(amountStr: string, decimalSeparator?: DecimalSeparator): AmountReadResult {
+  let text = (amountStr ?? '').toString().replace(/[\u00a0\u202f]/g, ' ').trim();
+  // A lone dash is the usual spreadsheet placeholder for nothing
+  if (text === '' || /^[-–—−]$/.test(text)) return { value: null };
+
+  // Exponent notation only comes from numeric spreadsheet cells
+  if (/^[-−]?\d+(?:[.,]\d+)?e[+-]?\d+$/i.test(text)) {
+    return { value: parseFloat(text.replace(',', '.').replace('−', '-')) };
+  }
+
+  const stripCurrency = () => {
+    const prefix = text.match(CURRENCY_PREFIX);
+    if (prefix && isCurrencyMarker(prefix[1])) text = text.slice(prefix[0].length);
+    const suffix = text.match(CURRENCY_SUFFIX);
+    if (suffix && isCurrencyMarker(suffix[1])) text = text.slice(0, text.length - suffix[0].length);
+    text = text.trim();
+  };
+  let signs = 0;
+  stripCurrency();
+  if (/^\(.*\)$/.test(text)) {
+    // Accounting-style negative: "(500)"
+    signs++;
+    text = text.slice(1, -1).trim();
+    stripCurrency();
+  }
+  if (/^[-−]/.test(text)) {
+    signs++;
+    text = text.slice(1).trim();
+  } else if (/[-−]$/.test(text)) {
+    // Trailing minus: "500-"
+    signs++;
+    text = text.slice(0, -1).trim();
+  } else if (/^\+/.test(text)) {
+    text = text.slice(1).trim();
+  }
+  stripCurrency();
+  if (signs > 1) return { value: null, error: 'Conflicting negative signs' };
+  if (/\d/.test(text) && /[A-Za-z\u00c0-\u024f]/.test(text)) {
+    return { value: null, error: `Unknown unit or currency "${text.replace(/[\d.,' ]+/g, ' ').trim()}"` };
+  }
+
+  // Space, NBSP or apostrophe group separators must split the integer part into groups of three
+  if (/[ ']/.test(text)) {
+    if (!/^\d{1,3}(?:[ ']\d{3})+(?:[.,]\d+)?$/.test(text)) {
+      return { value: null, error: 'Not a number' };
+    }
+    text = text.replace(/[ ']/g, '');
+  }
+  if (!/^[\d.,]*\d[\d.,]*$/.test(text)) return { value: null, error: 'Not a number' };
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  const decimal: DecimalSeparator = decimalSeparator
+    ?? (lastDot === -1 && lastComma === -1 ? '.' : lastDot > lastComma ? '.' : ',');
+  const group = decimal === '.' ? ',' : '.';
+
+  const parts = text.split(decimal);
+  if (parts.length > 2) return { value: null, error: `More than one decimal separator "${decimal}"` };
+  const [integerPart, fractionPart] = parts;
+  if (fractionPart !== undefined && !/^\d+$/.test(fractionPart)) {
+    return { value: null, error: `Unexpected "${group}" after the decimal separator` };
+  }
+  if (integerPart.includes(group)) {
+    const groups = integerPart.split(group);
+    if (!/^\d{1,3}$/.test(groups[0]) || groups.slice(1).some(g => !/^\d{3}$/.test(g))) {
+      return { value: null, error: `Misplaced group separator "${group}"` };
+    }
+  }
+
+  const digits = integerPart.split(group).join('') || '0';
+  const magnitude = parseFloat(fractionPart !== undefined ? `${digits}.${fractionPart}` : digits);
+  const ambiguous = text.replace(/\d/g, '').length === 1 && /[.,]\d{3}$/.test(text);
+  return { value: signs ? -magnitude : magnitude, ambiguous };
+}
+
+// Pick the file's decimal separator from the cells that only read one way
+export function detectDecimalSeparator(values: string[]): DecimalSeparatorResult {
+  let dotVotes = 0;
+  let commaVotes = 0;
+  for (const raw of values) {
+    const text = (raw ?? '').toString().replace(/[\s\u00a0\u202f']/g, '');
+    const dots = text.split('.').length - 1;
+    const commas = text.split(',').length - 1;
+    if (dots > 0 && commas > 0) {
+      // "1,234.50" / "1.234,50": the last separator is the decimal one
+      if (text.lastIndexOf('.') > text.lastIndexOf(',')) dotVotes++; else commaVotes++;
+    } else if (dots > 1) {
+      commaVotes++; // "1.234.567" groups with dots
+    } else if (commas > 1) {
+      dotVotes++;
+    } else if (dots === 1 && !/\.\d{3}(?!\d)/.test(text)) {
+      dotVotes++;
+    } else if (commas === 1 && !/,\d{3}(?!\d)/.test(text)) {
+      commaVotes++;
+    }
+  }
+  if (dotVotes === 0 && commaVotes === 0) return { separator: '.', source: 'default' };
+  return { separator: commaVotes > dotVotes ? ',' : '.', source: 'detected' };
+}
+
+// Parse an amount cell; returns null for empty or unreadable cells (see CellIssue for reporting)
+export function parseAmount(amountStr: string, decimalSeparator?: DecimalSeparator): number | null {
+  return readAmount(amountStr, decimalSeparator).value;
 }
 
 export function getCategoryLeaf(category: string): string {
@@ -487,138 +1595,502 @@ export function getCategoryLeaf(category: string): string {
 }
 
 export function transformData(parsedData: ParsedData, options: TransformOptions): TransformedRow[] {
-  const result: TransformedRow[] = [];
+  return sourcedRows(parsedData, options, '').map(({ row }) => row);
+}
+
+function sourcedRows(parsedData: ParsedData, options: TransformOptions, sheet: string): SourcedRow[] {
+  const result: SourcedRow[] = [];
+  const excludedRows = excludedSubtotalRows(parsedData.subtotals);
   
-  for (const row of parsedData.data) {
+  parsedData.data.forEach((row, rowIndex) => {
     const category = row[parsedData.categoryIndex]?.trim();
-    if (!category) continue;
+    if (!category || excludedRows.has(rowIndex)) return;
     
-    // Always use category leaf (last part after >)
-    const description = getCategoryLeaf(category);
+    const { description, atlarCategory } = categoryLabels(category, row, parsedData.descriptionIndex, options);
+    const sign = rowSign(category, row, parsedData.directionIndex, options);
+    const metadata = readMetadata(row, parsedData.metadataColumns);
     
-    for (const dateIndex of parsedData.dateIndices) {
-      const amountStr = row[dateIndex];
-      const parsedAmount = parseAmount(amountStr);
-      if (parsedAmount === null) continue;
-
-      // If this column came from a week range, only output one row using the first day
-      const expandedDatesForColumn = parsedData.expandedDates.get(dateIndex);
-      if (expandedDatesForColumn && expandedDatesForColumn.length > 0) {
-        const lastDate = expandedDatesForColumn[expandedDatesForColumn.length - 1];
-        result.push({
-          'amount.currency': options.currency,
-          'amount.stringValue': parsedAmount.toFixed(2),
-          'date': lastDate,
-          'parent.id': options.parentId,
-          'parent.type': 'ENTITY',
-          'description': description,
-          'metadata.atlar.category': description
-        });
-        continue;
-      }
-
-      // Single-date column
-      const dateHeader = parsedData.headers[dateIndex];
-      const parsedDate = parseDate(dateHeader);
-      if (parsedDate) {
-        result.push({
+    const source = { sheet, rowNumber: parsedData.rowNumbers[rowIndex] };
+    for (const booking of resampleCells(readCellAmounts(row, parsedData, sign), options, options.currency)) {
+      result.push({
+        row: {
           'amount.currency': options.currency,
-          'amount.stringValue': parsedAmount.toFixed(2),
-          'date': parsedDate,
+          'amount.stringValue': formatAmount(booking.amount, options.currency, options.rounding),
+          'date': booking.date,
           'parent.id': options.parentId,
           'parent.type': 'ENTITY',
           'description': description,
-          'metadata.atlar.category': description
-        });
-      }
+          'metadata.atlar.category': atlarCategory,
+          ...metadata
+        },
+        source
+      });
     }
-  }
+  });
   
   return result;
 }
 
-export function transformDataMulti(parsed: ParsedDataMulti): TransformedRow[] {
-  const result: TransformedRow[] = [];
-  for (const row of parsed.data) {
+// The mapped Atlar category, else the category leaf (last part after >). The description is the
+// mapping's override, else the mapped Description column, else the same as the category.
+function categoryLabels(
+  category: string,
+  row: string[],
+  descriptionIndex: number,
+  options: BookingOptions
+): { description: string; atlarCategory: string } {
+  const mapped = findCategoryMapping(category, options.categoryMapping ?? []);
+  const leaf = getCategoryLeaf(category);
+  return {
+    description: mapped?.description?.trim() || (descriptionIndex !== -1 && row[descriptionIndex]?.trim()) || leaf,
+    atlarCategory: mapped?.category.trim() || leaf
+  };
+}
+
+export function findCategoryMapping(category: string, mapping: CategoryMappingEntry[]): CategoryMappingEntry | null {
+  const usable = mapping.filter(entry => entry.source.trim() && entry.category.trim());
+  const path = normalizeCategoryPath(category);
+  const leaf = getCategoryLeaf(category).toLowerCase();
+  return usable.find(entry => normalizeCategoryPath(entry.source) === path)
+    ?? usable.find(entry => normalizeCategoryPath(entry.source) === leaf)
+    ?? null;
+}
+
+// Categories that would be transformed but have no mapping, in file order; none while the
+// mapping table is empty
+export function findUnmappedCategories(
+  sheets: Pick<ParsedData, 'data' | 'categoryIndex' | 'subtotals'>[],
+  mapping: CategoryMappingEntry[]
+): string[] {
+  if (mapping.length === 0) return [];
+  const unmapped: string[] = [];
+  const seen = new Set<string>();
+  sheets.forEach(parsed => {
+    const excludedRows = excludedSubtotalRows(parsed.subtotals);
+    parsed.data.forEach((row, rowIndex) => {
+      const category = row[parsed.categoryIndex]?.trim();
+      if (!category || excludedRows.has(rowIndex) || seen.has(normalizeCategoryPath(category))) return;
+      seen.add(normalizeCategoryPath(category));
+      if (!findCategoryMapping(category, mapping)) unmapped.push(category);
+    });
+  });
+  return unmapped;
+}
+
+const MAPPING_TABLE_COLUMNS: { [key in keyof CategoryMappingEntry]-?: string[] } = {
+  source: ['source', 'source category', 'category', 'from'],
+  category: ['atlar category', 'atlar', 'target', 'to'],
+  description: ['description']
+};
+
+// Read an uploaded mapping table: a header row with Source and Atlar Category columns
+// (Description optional), then one mapping per row
+export function readCategoryMappingTable(rows: any[][]): CategoryMappingEntry[] {
+  const headers = (rows[0] ?? []).map(headerCellToText);
+  const column = (key: keyof CategoryMappingEntry) =>
+    headers.findIndex(h => MAPPING_TABLE_COLUMNS[key].includes(h.trim().toLowerCase()));
+  const sourceIndex = column('source');
+  const categoryIndex = column('category');
+  const descriptionIndex = column('description');
+  if (sourceIndex === -1 || categoryIndex === -1) {
+    throw new Error('The mapping table needs "Source" and "Atlar Category" columns.');
+  }
+
+  const entries: CategoryMappingEntry[] = [];
+  for (const row of rows.slice(1)) {
+    const cell = (index: number) => (index === -1 || row[index] == null ? '' : String(row[index]).trim());
+    if (!cell(sourceIndex)) continue;
+    entries.push({ source: cell(sourceIndex), category: cell(categoryIndex), description: cell(descriptionIndex) || undefined });
+  }
+  return entries;
+}
+
+// Every row's currency must be an ISO 4217 code; the first few offenders are named with their source row
+function checkCurrencies(rows: SourcedRow[]): SourcedRow[] {
+  const unknown = new Map<string, RowSource>();
+  rows.forEach(({ row, source }) => {
+    const currency = row['amount.currency'];
+    if (!isIsoCurrency(currency) && !unknown.has(currency)) unknown.set(currency, source);
+  });
+  if (unknown.size > 0) {
+    const list: string[] = [];
+    unknown.forEach((source, currency) => {
+      list.push(`${currency ? `"${currency}"` : '(blank)'} (${source.sheet ? `${source.sheet}, ` : ''}row ${source.rowNumber})`);
+    });
+    throw new Error(`Unknown currency code ${list.slice(0, 5).join(', ')}${list.length > 5 ? ` and ${list.length - 5} more` : ''}. Use ISO 4217 codes such as SEK, EUR or USD.`);
+  }
+  return rows;
+}
+
+// parent.id must be a UUID by now: names and codes were resolved through the entity directory
+function checkEntities(rows: SourcedRow[]): SourcedRow[] {
+  const unknown = new Map<string, RowSource>();
+  rows.forEach(({ row, source }) => {
+    const parentId = row['parent.id'];
+    if (!isUuid(parentId) && !unknown.has(parentId)) unknown.set(parentId, source);
+  });
+  if (unknown.size > 0) {
+    const list: string[] = [];
+    unknown.forEach((source, parentId) => {
+      list.push(`${parentId ? `"${parentId}"` : '(blank)'} (${source.sheet ? `${source.sheet}, ` : ''}row ${source.rowNumber})`);
+    });
+    throw new Error(`Unknown entity ${list.slice(0, 5).join(', ')}${list.length > 5 ? ` and ${list.length - 5} more` : ''}. Use an entity UUID, or a name or code from the entity directory.`);
+  }
+  return rows;
+}
+
+const DIRECTION_VALUES: { [direction in Direction]: string[] } = {
+  inflow: ['in', 'inflow', 'incoming', 'income', 'revenue', 'receipt', 'credit', '+'],
+  outflow: ['out', 'outflow', 'outgoing', 'cost', 'expense', 'payment', 'debit', '-']
+};
+
+export function readDirection(value: string | undefined): Direction | null {
+  const text = value?.trim().toLowerCase() ?? '';
+  if (DIRECTION_VALUES.inflow.includes(text)) return 'inflow';
+  if (DIRECTION_VALUES.outflow.includes(text)) return 'outflow';
+  return null;
+}
+
+export function matchSignRule(category: string, rules: SignRule[]): SignRule | null {
+  const path = normalizeCategoryPath(category);
+  return rules.find(rule => {
+    if (!rule.pattern.trim()) return false;
+    const pattern = normalizeCategoryPath(rule.pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${pattern}$`).test(path);
+  }) ?? null;
+}
+
+// Outflows are negated; the file's Direction column decides first, then the sign rules
+function rowSign(category: string, row: string[], directionIndex: number, options: BookingOptions): number {
+  const direction = (directionIndex !== -1 && readDirection(row[directionIndex]))
+    || matchSignRule(category, options.signRules ?? [])?.direction;
+  const sign = direction === 'outflow' ? -1 : 1;
+  return options.flipSigns ? -sign : sign;
+}
+
+export interface SignTotal {
+  currency: string;
+  inflow: number;
+  outflow: number;
+}
+
+// Inflow and outflow totals per currency, for previewing the sign settings
+export function signTotals(rows: TransformedRow[]): SignTotal[] {
+  const totals = new Map<string, { inflow: number; outflow: number }>();
+  rows.forEach(row => {
+    const units = toMinorUnits(parseFloat(row['amount.stringValue']), row['amount.currency']);
+    const total = totals.get(row['amount.currency']) ?? { inflow: 0, outflow: 0 };
+    if (units >= 0) total.inflow += units;
+    else total.outflow += units;
+    totals.set(row['amount.currency'], total);
+  });
+  return Array.from(totals.keys()).sort().map(currency => ({
+    currency,
+    inflow: fromMinorUnits(totals.get(currency)!.inflow, currency),
+    outflow: fromMinorUnits(totals.get(currency)!.outflow, currency)
+  }));
+}
+
+function readMetadata(row: string[], columns: MetadataColumn[]): { [key: MetadataKey]: string } {
+  const metadata: { [key: MetadataKey]: string } = {};
+  columns.forEach(column => {
+    metadata[column.key] = row[column.index]?.trim() ?? '';
+  });
+  return metadata;
+}
+
+// An amount from one date column, with every day the column covers
+interface CellAmount {
+  amount: number;
+  days: string[];
+}
+
+interface Booking {
+  date: string;
+  amount: number;
+}
+
+function readCellAmounts(
+  row: string[],
+  parsed: Pick<ParsedData, 'dateIndices' | 'expandedDates' | 'dates' | 'decimalSeparator'>,
+  sign: number = 1
+): CellAmount[] {
+  const cells: CellAmount[] = [];
+  for (const dateIndex of parsed.dateIndices) {
+    const readValue = parseAmount(row[dateIndex], parsed.decimalSeparator.separator);
+    if (readValue === null) continue;
+    const parsedAmount = sign * readValue;
+
+    // Week ranges and period headers cover every day in them; single-date columns were
+    // resolved at parse time so yearless headers get the right year
+    const expandedDatesForColumn = parsed.expandedDates.get(dateIndex);
+    const parsedDate = parsed.dates.get(dateIndex);
+    if (expandedDatesForColumn && expandedDatesForColumn.length > 0) {
+      cells.push({ amount: parsedAmount, days: expandedDatesForColumn });
+    } else if (parsedDate) {
+      cells.push({ amount: parsedAmount, days: [parsedDate] });
+    }
+  }
+  return cells;
+}
+
+// Book a cell on the days chosen by the allocation strategy. A weekday missing from the
+// range falls back to the last day; a range without business days is split over all days.
+function allocateCell(cell: CellAmount, options: BookingOptions, currency: string): Booking[] {
+  const { amount, days } = cell;
+  const lastDay = days[days.length - 1];
+  switch (options.allocation ?? (options.periodicity ? 'even' : 'last')) {
+    case 'first':
+      return [{ date: days[0], amount }];
+    case 'weekday': {
+      const weekday = options.allocationWeekday ?? 1;
+      return [{ date: days.find(day => isoWeekday(day) === weekday) ?? lastDay, amount }];
+    }
+    case 'even':
+      return spreadAmount(amount, days, currency, options.rounding);
+    case 'businessDays': {
+      const businessDays = days.filter(day => isoWeekday(day) <= 5);
+      return spreadAmount(amount, businessDays.length > 0 ? businessDays : days, currency, options.rounding);
+    }
+    default:
+      return [{ date: lastDay, amount }];
+  }
+}
+
+function spreadAmount(amount: number, days: string[], currency: string, rounding?: RoundingMode): Booking[] {
+  return splitMinorUnits(toMinorUnits(amount, currency, rounding), days.length)
+    .map((units, i) => ({ date: days[i], amount: fromMinorUnits(units, currency) }));
+}
+
+// Without a periodicity every allocated amount becomes a row. With one, the amounts are summed
+// into buckets, so daily input rolls up and spread-out ranges are broken down. Sums are done in
+// the currency's minor units so the buckets add back up to the input.
+function resampleCells(cells: CellAmount[], options: BookingOptions, currency: string): Booking[] {
+  const bookings = cells.flatMap(cell => allocateCell(cell, options, currency));
+  const { periodicity } = options;
+  if (!periodicity) return bookings;
+
+  const buckets = new Map<string, number>();
+  bookings.forEach(booking => {
+    const bucket = bucketDate(booking.date, periodicity, options);
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + toMinorUnits(booking.amount, currency, options.rounding));
+  });
+  return Array.from(buckets.keys()).sort().map(date => ({ date, amount: fromMinorUnits(buckets.get(date)!, currency) }));
+}
+
+// Split into parts that differ by at most one minor unit; the leftover units go to the first parts
+function splitMinorUnits(units: number, parts: number): number[] {
+  const sign = units < 0 ? -1 : 1;
+  const base = Math.floor(Math.abs(units) / parts);
+  const leftover = Math.abs(units) - base * parts;
+  return Array.from({ length: parts }, (_, i) => sign * (base + (i < leftover ? 1 : 0)));
+}
+
+// Date of the bucket a day falls in: the day itself, the anchor weekday starting its week,
+// or the first or last day of its month
+export function bucketDate(iso: string, periodicity: Periodicity, options: BookingOptions): string {
+  const year = parseInt(iso.slice(0, 4), 10);
+  const month = parseInt(iso.slice(5, 7), 10) - 1;
+  const day = parseInt(iso.slice(8, 10), 10);
+  if (periodicity === 'Monthly') {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return formatIsoDate(year, month, options.monthAnchor === 'last' ? lastDay : 1);
+  }
+  if (periodicity === 'Weekly') {
+    const utc = Date.UTC(year, month, day);
+    const start = new Date(utc - ((isoWeekday(iso) - (options.weekAnchor ?? 1) + 7) % 7) * MS_PER_DAY);
+    return formatIsoDate(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  }
+  return iso;
+}
+
+// 1 = Monday ... 7 = Sunday
+function isoWeekday(iso: string): number {
+  const utc = Date.UTC(parseInt(iso.slice(0, 4), 10), parseInt(iso.slice(5, 7), 10) - 1, parseInt(iso.slice(8, 10), 10));
+  return (new Date(utc).getUTCDay() + 6) % 7 + 1;
+}
+
+function excludedSubtotalRows(subtotals: SubtotalCheck[]): Set<number> {
+  const rows = new Set<number>();
+  subtotals.forEach(check => {
+    if (check.excluded) rows.add(check.rowIndex);
+  });
+  return rows;
+}
+
+export function transformDataMulti(parsed: ParsedDataMulti, options: BookingOptions = {}): TransformedRow[] {
+  return sourcedRowsMulti(parsed, options, '').map(({ row }) => row);
+}
+
+// Checks and post-transform steps shared by both modes
+function finishRows(rows: SourcedRow[], options: BookingOptions): TransformResult {
+  // An ambiguous code or name would silently resolve to the first entity that has it
+  const problems = validateEntityDirectory(options.entities ?? []);
+  if (problems.length > 0) throw new Error(`Fix the entity directory first: ${problems.slice(0, 3).join('; ')}`);
+  const checked = checkEntities(checkCurrencies(rows));
+  return resolveDuplicates(convertCurrency(checked, options.fx, options.rounding), options.duplicates);
+}
+
+function sourcedRowsMulti(parsed: ParsedDataMulti, options: BookingOptions, sheet: string): SourcedRow[] {
+  const result: SourcedRow[] = [];
+  const excludedRows = excludedSubtotalRows(parsed.subtotals);
+  parsed.data.forEach((row, rowIndex) => {
     const category = row[parsed.categoryIndex]?.trim();
-    if (!category) continue;
-    const description = getCategoryLeaf(category);
-    const currency = row[parsed.currencyIndex]?.toUpperCase()?.trim();
-    const parentId = row[parsed.entityIdIndex]?.trim();
-    if (!currency || !parentId) continue;
-    for (const dateIndex of parsed.dateIndices) {
-      const dateHeader = parsed.headers[dateIndex];
-      const amountStr = row[dateIndex];
-      const parsedDate = parseDate(dateHeader);
-      const parsedAmount = parseAmount(amountStr);
-      if (parsedDate && parsedAmount !== null) {
-        result.push({
+    if (!category || excludedRows.has(rowIndex)) return;
+    const { description, atlarCategory } = categoryLabels(category, row, parsed.descriptionIndex, options);
+    const entityValue = row[parsed.entityIdIndex]?.trim();
+    const entity = findEntity(entityValue ?? '', options.entities ?? []);
+    // Blank Entity ID or Currency cells go on to the checks, which name their row
+    const parentId = entity?.id ?? entityValue ?? '';
+    const currency = row[parsed.currencyIndex]?.toUpperCase()?.trim() || entity?.currency || '';
+    const sign = rowSign(category, row, parsed.directionIndex, options);
+    const metadata = readMetadata(row, parsed.metadataColumns);
+    const source = { sheet, rowNumber: parsed.rowNumbers[rowIndex] };
+    for (const booking of resampleCells(readCellAmounts(row, parsed, sign), options, currency)) {
+      result.push({
+        row: {
           'amount.currency': currency,
-          'amount.stringValue': parsedAmount.toFixed(2),
-          'date': parsedDate,
+          'amount.stringValue': formatAmount(booking.amount, currency, options.rounding),
+          'date': booking.date,
           'parent.id': parentId,
           'parent.type': 'ENTITY',
           'description': description,
-          'metadata.atlar.category': description
-        });
-      }
+          'metadata.atlar.category': atlarCategory,
+          ...metadata
+        },
+        source
+      });
     }
-  }
+  });
   return result;
 }
 
-export function generateCSV(data: TransformedRow[]): string {
+// Rows with the same entity, currency, date, description and Atlar category would be separate forecast lines
+// in Atlar. They are summed into the first one, replaced by the last one, or reported and blocked.
+// Converted rows only collide with rows converted from the same currency, so the audit columns stay true,
+// and rows with different pass-through metadata are kept apart.
+function resolveDuplicates(rows: SourcedRow[], policy: DuplicatePolicy = 'sum'): TransformResult {
+  const groups = new Map<string, SourcedRow[]>();
+  rows.forEach(sourced => {
+    const { row } = sourced;
+    const extra = outputColumns([row])
+      .filter(column => !OUTPUT_COLUMNS.includes(column) && column !== 'metadata.originalAmount' && column !== 'metadata.fxRate')
+      .map(column => `${column}=${row[column]}`);
+    const key = [row['parent.id'], row['amount.currency'], row['date'], row['description'], row['metadata.atlar.category'], ...extra].join('\u0000');
+    const group = groups.get(key);
+    if (group) group.push(sourced);
+    else groups.set(key, [sourced]);
+  });
+
+  const result: TransformedRow[] = [];
+  const duplicates: DuplicateGroup[] = [];
+  groups.forEach(group => {
+    if (group.length === 1) {
+      result.push(group[0].row);
+      return;
+    }
+    let kept: TransformedRow;
+    if (policy === 'keepLast') {
+      kept = group[group.length - 1].row;
+    } else {
+      const sum = (column: keyof TransformedRow, currency: string) => formatAmount(fromMinorUnits(
+        group.reduce((units, { row }) => units + toMinorUnits(parseFloat(row[column] ?? '0'), currency), 0),
+        currency
+      ), currency);
+      const first = group[0].row;
+      kept = { ...first, 'amount.stringValue': sum('amount.stringValue', first['amount.currency']) };
+      if (first['metadata.originalCurrency'] !== undefined) {
+        kept['metadata.originalAmount'] = sum('metadata.originalAmount', first['metadata.originalCurrency']);
+      }
+    }
+    result.push(kept);
+    const first = group[0].row;
+    duplicates.push({
+      parentId: first['parent.id'],
+      currency: first['amount.currency'],
+      date: first['date'],
+      description: first['description'],
+      category: first['metadata.atlar.category'],
+      sources: group.map(({ row, source }) => ({ ...source, amount: row['amount.stringValue'] })),
+      result: policy === 'block' ? null : kept['amount.stringValue']
+    });
+  });
+
+  return { rows: result, duplicates, blocked: policy === 'block' && duplicates.length > 0 };
+}
+
+// Column order of the Atlar import template (atlar format working - atlar_*_example.csv)
+const OUTPUT_COLUMNS: (keyof TransformedRow)[] = [
+  'amount.currency',
+  'amount.stringValue',
+  'date',
+  'parent.id',
+  'parent.type',
+  'description',
+  'metadata.atlar.category'
+];
+// Column schema for the writers: the fixed Atlar columns, then every metadata column (pass-through
+// columns, FX audit columns) that any row has, in the order they first appear
+export function outputColumns(data: TransformedRow[]): (keyof TransformedRow)[] {
+  const columns = OUTPUT_COLUMNS.slice();
+  data.forEach(row => {
+    Object.keys(row).forEach(column => {
+      if (!columns.includes(column as keyof TransformedRow)) columns.push(column as keyof TransformedRow);
+    });
+  });
+  return columns;
+}
+
+// 'minimal' quotes only fields that need it (delimiter, quote or line break inside); 'all' quotes every field
+export type CsvQuoting = 'minimal' | 'all';
+export type LineEnding = 'lf' | 'crlf';
+// 'template' writes exactly the Atlar template columns; 'all' appends the metadata columns after them
+export type CsvColumns = 'template' | 'all';
+
+export interface CsvOutputOptions {
+  delimiter: CsvDelimiter;
+  quoting: CsvQuoting;
+  lineEnding: LineEnding;
+  // A UTF-8 byte order mark makes Excel read the file as UTF-8, but some importers read it as part of the first header
+  bom: boolean;
+  columns: CsvColumns;
+}
+
+// Matches the Atlar template: comma separated, CRLF line endings, no BOM
+export const DEFAULT_CSV_OUTPUT: CsvOutputOptions = {
+  delimiter: ',',
+  quoting: 'minimal',
+  lineEnding: 'crlf',
+  bom: false,
+  columns: 'all'
+};
+
+// RFC 4180 field: wrapped in double quotes, with inner quotes doubled, when it holds the delimiter, a quote or a line break
+function csvField(value: string, options: CsvOutputOptions): string {
+  const needsQuotes = options.quoting === 'all'
+    || value.indexOf(options.delimiter) !== -1
+    || /["\r\n]/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function generateCSV(data: TransformedRow[], options: Partial<CsvOutputOptions> = {}): string {
   if (data.length === 0) return '';
-  
-  const headers = Object.keys(data[0]);
-  
-  const csvContent = [
-    headers.join(','),
+  const opts: CsvOutputOptions = { ...DEFAULT_CSV_OUTPUT, ...options };
+
+  const headers = opts.columns === 'template' ? OUTPUT_COLUMNS : outputColumns(data);
+  const line = (values: string[]) => values.map(value => csvField(value, opts)).join(opts.delimiter);
+
+  const lines = [
+    line(headers),
     ...data.map(row => {
       const normalizedDate = parseDate(String(row['date'])) || String(row['date']);
-      const values = [
-        row['amount.currency'],
-        row['amount.stringValue'],
-        normalizedDate,
-        row['parent.id'],
-        row['parent.type'],
-        row['description'],
-        row['metadata.atlar.category']
-      ];
-      return values.join(',');
+      return line(headers.map(column => (column === 'date' ? normalizedDate : row[column] ?? '')));
     })
-  ].join('\n');
-  
-  // Return plain UTF-8 without BOM to avoid breaking first header
-  return csvContent;
-}
-
-export function generateExcel(data: TransformedRow[]): ArrayBuffer {
-  if (data.length === 0) return new ArrayBuffer(0);
-  
-  const headers = Object.keys(data[0]);
-  
-  // Create worksheet data
-  const worksheetData = [
-    headers,
-    ...data.map(row => [
-      row['amount.currency'],
-      row['amount.stringValue'],
-      row['date'],
-      row['parent.id'],
-      row['parent.type'],
-      row['description'],
-      row['metadata.atlar.category']
-    ])
   ];
-  
-  // Create workbook and worksheet
-  const workbook = XLSX.utils.book_new();
-  const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
-  
-  // Add worksheet to workbook
-  XLSX.utils.book_append_sheet(workbook, worksheet, 'Forecast Data');
-  
-  // Generate Excel file as ArrayBuffer (SheetJS returns ArrayBuffer for type:'array')
-  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
-}
\ No newline at end of file
+  const eol = opts.lineEnding === 'crlf' ? '\r\n' : '\n';
+
+  return (opts.bom ? '\uFEFF' : '') + lines.join(eol);
+}
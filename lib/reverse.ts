@@ -0,0 +1,139 @@
+import * as XLSX from 'xlsx';
+import { TransformedRow, isTotalCategory, normalizeCategoryPath, parentPath, parseDate } from './parsers';
+import { minorUnits } from './currencies';
+
+// Reverse mode: an Atlar export (the TransformedRow columns) back to the wide grid the
+// transform reads, so it can be edited as a spreadsheet and transformed again
+
+const REQUIRED_COLUMNS = ['amount.currency', 'amount.stringValue', 'date', 'parent.id'];
+
+export interface ForecastGridOptions {
+  // Entity ID and Currency columns as in multi-entity files; always written when the rows
+  // have more than one entity or currency
+  entityColumns?: boolean;
+}
+
+export interface ForecastGrid {
+  rows: (string | number)[][];
+  entityColumns: boolean;
+  entities: number;
+  currencies: number;
+  categories: number;
+  dates: number;
+  // Categories the transform reads as total or parent rows ("Total", "Marketing" above
+  // "Marketing>Ads"); with "Exclude parent and total rows" on they are dropped when they add up
+  subtotalCategories: string[];
+}
+
+// Read an Atlar CSV/XLSX sheet: a header row with the Atlar column names, then one forecast per row
+export function readAtlarRows(rows: any[][]): TransformedRow[] {
+  const nonEmpty = rows.filter(row => row.some(cell => String(cell ?? '').trim() !== ''));
+  if (nonEmpty.length === 0) throw new Error('The file is empty.');
+  const headers = nonEmpty[0].map(cell => String(cell ?? '').trim());
+  const missing = REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+  if (missing.length > 0) throw new Error(`Not an Atlar forecast file: missing ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}.`);
+
+  const problems: string[] = [];
+  const result: TransformedRow[] = [];
+  nonEmpty.slice(1).forEach((cells, i) => {
+    const row: { [column: string]: string } = {};
+    headers.forEach((header, index) => {
+      if (header) row[header] = String(cells[index] ?? '').trim();
+    });
+    const date = parseDate(row['date']);
+    const amount = parseFloat(row['amount.stringValue']);
+    if (!date || isNaN(amount)) {
+      problems.push(`Row ${i + 2}: ${!date ? `"${row['date']}" is not a date` : `"${row['amount.stringValue']}" is not an amount`}`);
+      return;
+    }
+    result.push({
+      ...row,
+      'amount.currency': row['amount.currency'].toUpperCase(),
+      'amount.stringValue': row['amount.stringValue'],
+      date,
+      'parent.id': row['parent.id'],
+      'parent.type': row['parent.type'] || 'ENTITY',
+      description: row['description'] ?? '',
+      'metadata.atlar.category': row['metadata.atlar.category'] || row['description'] || ''
+    } as TransformedRow);
+  });
+  if (problems.length > 0) throw new Error(`${problems.slice(0, 3).join('; ')}${problems.length > 3 ? ` and ${problems.length - 3} more` : ''}`);
+  return result;
+}
+
+// Category rows by date columns. Rows for the same entity, currency, category, description and
+// metadata share a grid row; two forecasts on the same day are added up into one cell, as the
+// transform's default duplicate handling would.
+export function buildForecastGrid(data: TransformedRow[], options: ForecastGridOptions = {}): ForecastGrid {
+  const entities = new Set(data.map(row => row['parent.id']));
+  const currencies = new Set(data.map(row => row['amount.currency']));
+  const entityColumns = options.entityColumns || entities.size > 1 || currencies.size > 1;
+  // A Description column is only needed where it differs from the category
+  const descriptionColumn = data.some(row => row['description'] !== row['metadata.atlar.category']);
+  const metadataColumns: string[] = [];
+  data.forEach(row => {
+    Object.keys(row).forEach(column => {
+      if (column.indexOf('metadata.') === 0 && column !== 'metadata.atlar.category' && !metadataColumns.includes(column)) {
+        metadataColumns.push(column);
+      }
+    });
+  });
+  const dates = Array.from(new Set(data.map(row => row['date']))).sort();
+
+  const lines = new Map<string, { row: TransformedRow; units: Map<string, number> }>();
+  data.forEach(row => {
+    const currency = row['amount.currency'];
+    const labels = [
+      row['parent.id'], currency, row['metadata.atlar.category'],
+      descriptionColumn ? row['description'] : '',
+      ...metadataColumns.map(column => row[column as keyof TransformedRow] ?? '')
+    ];
+    const key = JSON.stringify(labels);
+    const line = lines.get(key) ?? { row, units: new Map<string, number>() };
+    lines.set(key, line);
+    // Whole minor units so summed cells don't pick up float noise
+    const units = Math.round(parseFloat(row['amount.stringValue']) * Math.pow(10, minorUnits(currency)));
+    line.units.set(row['date'], (line.units.get(row['date']) ?? 0) + units);
+  });
+
+  const headers = [
+    ...(entityColumns ? ['Entity ID', 'Currency'] : []),
+    'Category',
+    ...(descriptionColumn ? ['Description'] : []),
+    ...metadataColumns,
+    ...dates
+  ];
+  const rows: (string | number)[][] = [headers];
+  lines.forEach(({ row, units }) => {
+    const scale = Math.pow(10, minorUnits(row['amount.currency']));
+    rows.push([
+      ...(entityColumns ? [row['parent.id'], row['amount.currency']] : []),
+      row['metadata.atlar.category'],
+      ...(descriptionColumn ? [row['description']] : []),
+      ...metadataColumns.map(column => row[column as keyof TransformedRow] ?? ''),
+      ...dates.map(date => (units.has(date) ? units.get(date)! / scale : ''))
+    ]);
+  });
+
+  const categories = Array.from(new Set(data.map(row => row['metadata.atlar.category']).filter(category => category !== '')));
+  const parents = categories.map(category => parentPath(normalizeCategoryPath(category)));
+  const subtotalCategories = categories.filter(category =>
+    isTotalCategory(category) || parents.includes(normalizeCategoryPath(category))
+  );
+
+  return {
+    rows,
+    entityColumns,
+    entities: entities.size,
+    currencies: currencies.size,
+    categories: lines.size,
+    dates: dates.length,
+    subtotalCategories
+  };
+}
+
+export function generateGridExcel(grid: ForecastGrid): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(grid.rows), 'Forecast');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+}
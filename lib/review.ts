@@ -0,0 +1,176 @@
+import * as XLSX from 'xlsx';
+import { BookingOptions, CellIssue, DuplicateGroup, MS_PER_DAY, RawSheet, SubtotalCheck, TransformedRow, bucketDate, outputColumns, parseDate } from './parsers';
+import { minorUnits, toMinorUnits, fromMinorUnits } from './currencies';
+import { EntityRecord, findEntity } from './entities';
+
+// "Review in Excel": the forecast rows with real date and amount cells, a pivot per entity and
+// currency, the parse issues and the input sheets in one workbook
+
+// Extra sheets for "Review in Excel"; each is left out when its input is missing
+export interface ReviewWorkbookInput {
+  // Input sheets as read from the file, copied cell for cell
+  sources?: RawSheet[];
+  // Parse results of the included sheets, for the Issues sheet
+  parsed?: { name: string; issues: CellIssue[]; subtotals: SubtotalCheck[] }[];
+  duplicates?: DuplicateGroup[];
+  // Pivot columns; defaults to weeks for up to 16 weeks of data, else months
+  pivotPeriod?: 'Weekly' | 'Monthly';
+  weekAnchor?: number;
+  // Names the pivot's entities
+  entities?: EntityRecord[];
+}
+
+const EXCEL_DATE_FORMAT = 'yyyy-mm-dd';
+
+// Real date cell: the Excel serial of an ISO date, computed in UTC so the time zone can't shift it
+function excelDateCell(iso: string, format: string = EXCEL_DATE_FORMAT): XLSX.CellObject | string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) return iso;
+  const utc = Date.UTC(parseInt(iso.slice(0, 4), 10), parseInt(iso.slice(5, 7), 10) - 1, parseInt(iso.slice(8, 10), 10));
+  return { t: 'n', v: (utc - Date.UTC(1899, 11, 30)) / MS_PER_DAY, z: format };
+}
+
+// Numeric cell with the currency's decimals, e.g. #,##0.00 "SEK"
+function excelAmountCell(amount: number, currency: string): XLSX.CellObject {
+  const digits = minorUnits(currency);
+  const pattern = digits > 0 ? '#,##0.' + new Array(digits + 1).join('0') : '#,##0';
+  return { t: 'n', v: amount, z: currency ? `${pattern} "${currency.replace(/"/g, '')}"` : pattern };
+}
+
+function excelAmountValue(value: string | undefined, currency: string | undefined): XLSX.CellObject | string {
+  const amount = parseFloat(value ?? '');
+  return isNaN(amount) ? value ?? '' : excelAmountCell(amount, currency ?? '');
+}
+
+// Sheet names are at most 31 characters, without : \ / ? * [ ], and unique ignoring case
+function excelSheetName(name: string, used: string[]): string {
+  const base = name.replace(/[:\\/?*[\]]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; used.some(existing => existing.toLowerCase() === candidate.toLowerCase()); n++) {
+    candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  }
+  used.push(candidate);
+  return candidate;
+}
+
+function forecastDataSheet(data: TransformedRow[]): XLSX.WorkSheet {
+  const headers = outputColumns(data);
+  const rows = data.map(row => headers.map(column => {
+    if (column === 'date') return excelDateCell(parseDate(String(row['date'])) || String(row['date']));
+    if (column === 'amount.stringValue') return excelAmountValue(row[column], row['amount.currency']);
+    if (column === 'metadata.originalAmount') return excelAmountValue(row[column], row['metadata.originalCurrency']);
+    return row[column] ?? '';
+  }));
+  return XLSX.utils.aoa_to_sheet([headers, ...rows]);
+}
+
+// Categories x weeks (or months), one block per entity and currency closed by a total row.
+// Sums are kept in minor units so the totals match the CSV to the cent.
+function pivotSheet(data: TransformedRow[], review: ReviewWorkbookInput): XLSX.WorkSheet {
+  const dates = data.map(row => parseDate(String(row['date'])) || String(row['date'])).filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date)).sort();
+  const spanDays = dates.length > 0
+    ? (Date.parse(dates[dates.length - 1]) - Date.parse(dates[0])) / MS_PER_DAY
+    : 0;
+  const period = review.pivotPeriod ?? (spanDays < 16 * 7 ? 'Weekly' : 'Monthly');
+  const bucketOptions: BookingOptions = { weekAnchor: review.weekAnchor };
+
+  const periods: string[] = [];
+  const blocks = new Map<string, { parentId: string; currency: string; categories: Map<string, Map<string, number>> }>();
+  data.forEach(row => {
+    const date = parseDate(String(row['date'])) || String(row['date']);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+    const bucket = bucketDate(date, period, bucketOptions);
+    if (!periods.includes(bucket)) periods.push(bucket);
+
+    const currency = row['amount.currency'];
+    const key = `${row['parent.id']}|${currency}`;
+    let block = blocks.get(key);
+    if (!block) {
+      block = { parentId: row['parent.id'], currency, categories: new Map() };
+      blocks.set(key, block);
+    }
+    const category = row['metadata.atlar.category'] || row['description'];
+    const amounts = block.categories.get(category) ?? new Map<string, number>();
+    block.categories.set(category, amounts);
+    amounts.set(bucket, (amounts.get(bucket) ?? 0) + toMinorUnits(parseFloat(row['amount.stringValue']) || 0, currency));
+  });
+  periods.sort();
+
+  const periodFormat = period === 'Monthly' ? 'mmm yyyy' : EXCEL_DATE_FORMAT;
+  const header: (XLSX.CellObject | string)[] = [
+    'Entity', 'Currency', 'Category',
+    ...periods.map(bucket => excelDateCell(bucket, periodFormat)),
+    'Total'
+  ];
+  const rows: (XLSX.CellObject | string)[][] = [header];
+  blocks.forEach(block => {
+    const entity = findEntity(block.parentId, review.entities ?? []);
+    const label = entity ? entity.name || entity.code : block.parentId;
+    const amountCell = (units: number) => excelAmountCell(fromMinorUnits(units, block.currency), block.currency);
+    const totals = new Map<string, number>();
+    block.categories.forEach((amounts, category) => {
+      let rowTotal = 0;
+      const cells = periods.map(bucket => {
+        const units = amounts.get(bucket);
+        if (units === undefined) return '';
+        rowTotal += units;
+        totals.set(bucket, (totals.get(bucket) ?? 0) + units);
+        return amountCell(units);
+      });
+      rows.push([label, block.currency, category, ...cells, amountCell(rowTotal)]);
+    });
+    let grandTotal = 0;
+    totals.forEach(units => { grandTotal += units; });
+    rows.push([
+      `Total ${label}`, block.currency, '',
+      ...periods.map(bucket => (totals.has(bucket) ? amountCell(totals.get(bucket)!) : '')),
+      amountCell(grandTotal)
+    ]);
+  });
+  return XLSX.utils.aoa_to_sheet(rows);
+}
+
+// Every input cell that was skipped, read under an assumption, left out as a subtotal or merged as a duplicate
+function issuesSheet(review: ReviewWorkbookInput): XLSX.WorkSheet {
+  const rows: (string | number)[][] = [['Sheet', 'Row', 'Column', 'Value', 'Type', 'Outcome', 'Message']];
+  (review.parsed ?? []).forEach(sheet => {
+    sheet.issues.forEach(issue => {
+      rows.push([sheet.name, issue.rowNumber, issue.header, issue.value, 'Amount', issue.severity === 'error' ? 'Skipped' : 'Used', issue.message]);
+    });
+    sheet.subtotals.forEach(check => {
+      if (check.excluded) {
+        rows.push([sheet.name, check.rowNumber, '', check.category, 'Subtotal', 'Skipped', `Equals the sum of ${check.children.join(' + ')}`]);
+      } else if (check.mismatches.length > 0) {
+        const differences = check.mismatches.map(m => `${m.header}: ${m.value} vs ${m.childrenSum}`).join(', ');
+        rows.push([sheet.name, check.rowNumber, '', check.category, 'Subtotal', 'Used', `Differs from its children (${differences})`]);
+      }
+    });
+  });
+  (review.duplicates ?? []).forEach(group => {
+    group.sources.forEach(source => {
+      rows.push([
+        source.sheet, source.rowNumber, group.date, source.amount, 'Duplicate',
+        group.result === null ? 'Blocked' : 'Merged',
+        `${group.sources.length} rows for "${group.description}"${group.category ? ` in ${group.category}` : ''} (${group.currency}) on ${group.date}`
+      ]);
+    });
+  });
+  return XLSX.utils.aoa_to_sheet(rows);
+}
+
+export function generateExcel(data: TransformedRow[], review: ReviewWorkbookInput = {}): ArrayBuffer {
+  if (data.length === 0) return new ArrayBuffer(0);
+
+  const workbook = XLSX.utils.book_new();
+  const names: string[] = [];
+  XLSX.utils.book_append_sheet(workbook, forecastDataSheet(data), excelSheetName('Forecast Data', names));
+  XLSX.utils.book_append_sheet(workbook, pivotSheet(data, review), excelSheetName('Pivot', names));
+  if (review.parsed || review.duplicates) {
+    XLSX.utils.book_append_sheet(workbook, issuesSheet(review), excelSheetName('Issues', names));
+  }
+  (review.sources ?? []).forEach(sheet => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), excelSheetName(`Input ${sheet.name}`, names));
+  });
+
+  // Generate Excel file as ArrayBuffer (SheetJS returns ArrayBuffer for type:'array')
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+}
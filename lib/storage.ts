@@ -0,0 +1,82 @@
+import { CategoryMappingEntry, ColumnMapping, CsvOutputOptions, DEFAULT_CSV_OUTPUT, SignRule } from './parsers';
+import { EntityRecord } from './entities';
+
+// Everything the app remembers lives in localStorage under this prefix, JSON-encoded
+const STORAGE_PREFIX = 'forecast-transformer:';
+
+export function loadStored<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (err) {
+    console.warn(`[storage] Could not read "${key}"`, err);
+    return fallback;
+  }
+}
+
+export function saveStored<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`[storage] Could not save "${key}"`, err);
+  }
+}
+
+const COLUMN_MAPPINGS_KEY = 'column-mappings';
+
+// Column mappings are remembered per signature of the header row they apply to (see headerSignature);
+// the first candidate row with a remembered mapping wins
+export function recallColumnMapping(signatures: string[]): ColumnMapping | null {
+  const mappings = loadStored<{ [signature: string]: ColumnMapping }>(COLUMN_MAPPINGS_KEY, {});
+  const known = signatures.find(signature => mappings.hasOwnProperty(signature));
+  return known === undefined ? null : mappings[known];
+}
+
+export function rememberColumnMapping(signature: string, mapping: ColumnMapping): void {
+  const mappings = loadStored<{ [signature: string]: ColumnMapping }>(COLUMN_MAPPINGS_KEY, {});
+  mappings[signature] = mapping;
+  saveStored(COLUMN_MAPPINGS_KEY, mappings);
+}
+
+const CATEGORY_MAPPING_KEY = 'category-mapping';
+
+export function recallCategoryMapping(): CategoryMappingEntry[] {
+  return loadStored<CategoryMappingEntry[]>(CATEGORY_MAPPING_KEY, []);
+}
+
+export function rememberCategoryMapping(mapping: CategoryMappingEntry[]): void {
+  saveStored(CATEGORY_MAPPING_KEY, mapping);
+}
+
+const SIGN_RULES_KEY = 'sign-rules';
+
+export function recallSignRules(): SignRule[] {
+  return loadStored<SignRule[]>(SIGN_RULES_KEY, []);
+}
+
+export function rememberSignRules(rules: SignRule[]): void {
+  saveStored(SIGN_RULES_KEY, rules);
+}
+
+const ENTITY_DIRECTORY_KEY = 'entity-directory';
+
+export function recallEntityDirectory(): EntityRecord[] {
+  return loadStored<EntityRecord[]>(ENTITY_DIRECTORY_KEY, []);
+}
+
+export function rememberEntityDirectory(directory: EntityRecord[]): void {
+  saveStored(ENTITY_DIRECTORY_KEY, directory);
+}
+
+const CSV_OUTPUT_KEY = 'csv-output';
+
+// Merged over the defaults so options added later get a value
+export function recallCsvOutput(): CsvOutputOptions {
+  return { ...DEFAULT_CSV_OUTPUT, ...loadStored<Partial<CsvOutputOptions>>(CSV_OUTPUT_KEY, {}) };
+}
+
+export function rememberCsvOutput(options: CsvOutputOptions): void {
+  saveStored(CSV_OUTPUT_KEY, options);
+}